@@ -4,4 +4,8 @@ pragma solidity ^0.8.24;
 interface IFactory {
     function getFeeReceiver() external view returns (address);
     function getDepositFee() external view returns (uint256);
+    function getDepositFeeFor(address wrapper) external view returns (uint256);
+    function getWithdrawalFeeFor(address wrapper) external view returns (uint256);
+    function isDepositPaused(address wrapper) external view returns (bool);
+    function isWithdrawalPaused(address wrapper) external view returns (bool);
 }
\ No newline at end of file
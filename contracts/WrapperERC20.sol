@@ -6,13 +6,40 @@ import "@openzeppelin/contracts-upgradeable/token/ERC20/extensions/ERC20PermitUp
 import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
 import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
 import { IFactory } from "./IFactory.sol";
+import { IPermit2 } from "./IPermit2.sol";
+import { TokenMetadata } from "./libraries/TokenMetadata.sol";
+
+contract WrapperERC20 is
+    Initializable,
+    ERC20Upgradeable,
+    ERC20PermitUpgradeable,
+    OwnableUpgradeable,
+    UUPSUpgradeable
+{
+    using SafeERC20 for IERC20;
 
-contract WrapperERC20 is Initializable, ERC20Upgradeable, OwnableUpgradeable, UUPSUpgradeable {
     uint256 public constant FEE_DENOMINATOR = 10000;
 
+    /// @notice Canonical Permit2 deployment, same address on every chain.
+    IPermit2 public constant PERMIT2 = IPermit2(0x000000000022D473030F116dDEE9F6B43aC78BA3);
+
+    bytes32 public constant DEPOSIT_AUTHORIZATION_TYPEHASH = keccak256(
+        "DepositAuthorization(address owner,address beneficiary,uint256 amount,uint256 nonce,uint256 deadline)"
+    );
+
+    bytes32 public constant DEPOSIT_WITNESS_TYPEHASH = keccak256("DepositWitness(address beneficiary)");
+
+    string private constant DEPOSIT_WITNESS_TYPE_STRING =
+        "DepositWitness witness)DepositWitness(address beneficiary)TokenPermissions(address token,uint256 amount)";
+
     IERC20 public underlyingToken;
     IFactory public factory;
+    uint8 private _underlyingDecimals;
+    uint256 private _accruedFees;
 
     event Deposit(
         address indexed user,
@@ -22,39 +49,102 @@ contract WrapperERC20 is Initializable, ERC20Upgradeable, OwnableUpgradeable, UU
         address feeReceiver
     );
 
+    event FeesCollected(address indexed receiver, uint256 amount);
+
     event Withdrawal(
         address indexed user,
         uint256 wrappedAmount,
-        uint256 underlyingAmount
+        uint256 feeAmount,
+        uint256 underlyingAmount,
+        address feeReceiver
     );
 
     error ZeroAmount();
     error InvalidFactory();
     error InvalidUnderlyingToken();
-    error TransferFailed();
     error InsufficientBalance();
+    error DepositsPaused();
+    error WithdrawalsPaused();
+    error UnauthorizedBeneficiary();
+    error InvalidAuthorization();
+    error AuthorizationExpired();
+    error PermitFailed();
+    error InvalidReceiver();
+    error IncompleteTransfer();
+
+    modifier whenDepositsNotPaused() {
+        if (factory.isDepositPaused(address(this))) revert DepositsPaused();
+        _;
+    }
 
+    modifier whenWithdrawalsNotPaused() {
+        if (factory.isWithdrawalPaused(address(this))) revert WithdrawalsPaused();
+        _;
+    }
+
+    /// @dev Finishes at the latest reinitializer version, so `initializeV2` and `initializeV3` can
+    /// only run on wrappers initialized before them. Bump it together with any new reinitializer.
     function initialize(
         address _underlyingToken,
         address _factory,
         string memory _name,
         string memory _symbol
-    ) public initializer {
+    ) public reinitializer(3) {
         if (_underlyingToken == address(0)) revert InvalidUnderlyingToken();
         if (_factory == address(0)) revert InvalidFactory();
 
         __ERC20_init(_name, _symbol);
+        __ERC20Permit_init(_name);
         __Ownable_init(_factory);
         __UUPSUpgradeable_init();
 
         underlyingToken = IERC20(_underlyingToken);
         factory = IFactory(_factory);
+        _underlyingDecimals = TokenMetadata.decimals(_underlyingToken);
     }
 
-    function deposit(uint256 amount) external {
+    function deposit(uint256 amount) external whenDepositsNotPaused {
         _deposit(msg.sender, msg.sender, amount);
     }
 
+    /// @notice ERC-4626 deposit. Shares are minted 1:1 for the assets left after the deposit fee.
+    function deposit(uint256 assets, address receiver) external whenDepositsNotPaused returns (uint256) {
+        return _deposit(msg.sender, receiver, assets);
+    }
+
+    /// @notice ERC-4626 mint. Pulls `previewMint(shares)` assets so that exactly `shares` are minted.
+    function mint(uint256 shares, address receiver) external whenDepositsNotPaused returns (uint256) {
+        uint256 assets = previewMint(shares);
+        uint256 received = _pullUnderlying(msg.sender, assets);
+        // Fee-on-transfer underlyings cannot back an exact mint.
+        if (received < assets) revert IncompleteTransfer();
+
+        _mintShares(receiver, received, received - shares);
+        return assets;
+    }
+
+    /// @notice Sets up the EIP-712 domain used by `permit` and deposit authorizations on
+    /// wrappers initialized before it existed. See `WrapperFactory.upgradeWrappersAndCall`.
+    function initializeV2() public reinitializer(2) {
+        __ERC20Permit_init(name());
+    }
+
+    /// @notice Stores the underlying decimals on wrappers initialized before they were mirrored.
+    /// Also sets up the permit domain, so wrappers that skipped `initializeV2` are fully migrated.
+    function initializeV3() public reinitializer(3) {
+        __ERC20Permit_init(name());
+        _underlyingDecimals = TokenMetadata.decimals(address(underlyingToken));
+    }
+
+    /// @notice Same decimals as the underlying, so wrapped and underlying amounts match 1:1.
+    /// @dev Wrappers upgraded without `initializeV3` read the underlying until it is called.
+    function decimals() public view override returns (uint8) {
+        if (_underlyingDecimals != 0) return _underlyingDecimals;
+        return TokenMetadata.decimals(address(underlyingToken));
+    }
+
+    /// @notice Deposits using an EIP-2612 permit of the underlying. Only `owner` can pick a
+    /// different beneficiary; relayers must use `depositWithAuthorization`.
     function depositWithPermit(
         address owner,
         address beneficiary,
@@ -63,59 +153,262 @@ contract WrapperERC20 is Initializable, ERC20Upgradeable, OwnableUpgradeable, UU
         uint8 v,
         bytes32 r,
         bytes32 s
-    ) external {
-        IERC20Permit(address(underlyingToken)).permit(
-            owner,
-            address(this),
-            amount,
-            deadline,
-            v,
-            r,
-            s
+    ) external whenDepositsNotPaused {
+        if (msg.sender != owner && beneficiary != owner) revert UnauthorizedBeneficiary();
+
+        _permitUnderlying(owner, amount, deadline, v, r, s, msg.sender == owner);
+        _deposit(owner, beneficiary, amount);
+    }
+
+    /// @notice Relayed deposit: `authorization` is an EIP-712 `DepositAuthorization` signed by
+    /// `owner`, so the caller cannot change the beneficiary or the amount.
+    function depositWithAuthorization(
+        address owner,
+        address beneficiary,
+        uint256 amount,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s,
+        bytes calldata authorization
+    ) external whenDepositsNotPaused {
+        if (block.timestamp > deadline) revert AuthorizationExpired();
+
+        bytes32 structHash = keccak256(
+            abi.encode(DEPOSIT_AUTHORIZATION_TYPEHASH, owner, beneficiary, amount, _useNonce(owner), deadline)
         );
+        (address signer, ECDSA.RecoverError error, ) = ECDSA.tryRecover(_hashTypedDataV4(structHash), authorization);
+        if (error != ECDSA.RecoverError.NoError || signer != owner) revert InvalidAuthorization();
 
+        _permitUnderlying(owner, amount, deadline, v, r, s, true);
         _deposit(owner, beneficiary, amount);
     }
 
-    function _deposit(address from, address to, uint256 amount) internal {
+    /// @notice Deposits through Permit2 for underlyings without EIP-2612. The signature must
+    /// include a `DepositWitness` committing to `beneficiary`.
+    function depositWithPermit2(
+        address owner,
+        address beneficiary,
+        IPermit2.PermitTransferFrom calldata permit,
+        bytes calldata signature
+    ) external whenDepositsNotPaused {
+        if (permit.permitted.token != address(underlyingToken)) revert InvalidUnderlyingToken();
+        if (permit.permitted.amount == 0) revert ZeroAmount();
+
+        uint256 balanceBefore = underlyingToken.balanceOf(address(this));
+        PERMIT2.permitWitnessTransferFrom(
+            permit,
+            IPermit2.SignatureTransferDetails(address(this), permit.permitted.amount),
+            owner,
+            keccak256(abi.encode(DEPOSIT_WITNESS_TYPEHASH, beneficiary)),
+            DEPOSIT_WITNESS_TYPE_STRING,
+            signature
+        );
+
+        _mintReceived(beneficiary, underlyingToken.balanceOf(address(this)) - balanceBefore);
+    }
+
+    /// @dev A permit can be front-run and consumed by anyone, so `allowanceFallback` accepts an existing
+    /// allowance instead. Only callers the owner consented to may use it: otherwise anyone could wrap
+    /// the standing approval of any account with a bogus signature and charge it the deposit fee.
+    function _permitUnderlying(
+        address owner,
+        uint256 amount,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s,
+        bool allowanceFallback
+    ) internal {
+        try IERC20Permit(address(underlyingToken)).permit(owner, address(this), amount, deadline, v, r, s) {
+        } catch {
+            if (!allowanceFallback || underlyingToken.allowance(owner, address(this)) < amount) revert PermitFailed();
+        }
+    }
+
+    function _deposit(address from, address to, uint256 amount) internal returns (uint256) {
+        return _mintReceived(to, _pullUnderlying(from, amount));
+    }
+
+    function _pullUnderlying(address from, uint256 amount) internal returns (uint256) {
         if (amount == 0) revert ZeroAmount();
 
-        address feeReceiver = factory.getFeeReceiver();
-        uint256 fee = factory.getDepositFee();
+        uint256 balanceBefore = underlyingToken.balanceOf(address(this));
+        underlyingToken.safeTransferFrom(from, address(this), amount);
 
-        uint256 feeAmount = (amount * fee) / FEE_DENOMINATOR;
-        uint256 netAmount = amount - feeAmount;
+        return underlyingToken.balanceOf(address(this)) - balanceBefore;
+    }
 
-        bool success = underlyingToken.transferFrom(from, address(this), amount);
-        if (!success) revert TransferFailed();
+    /// @dev Mints against the balance actually received so fee-on-transfer underlyings stay fully backed.
+    function _mintReceived(address to, uint256 received) internal returns (uint256) {
+        uint256 feeAmount = (received * factory.getDepositFeeFor(address(this))) / FEE_DENOMINATOR;
+        return _mintShares(to, received, feeAmount);
+    }
 
-        if (feeAmount > 0) {
-            success = underlyingToken.transfer(feeReceiver, feeAmount);
-            if (!success) revert TransferFailed();
-        }
+    function _mintShares(address to, uint256 received, uint256 feeAmount) internal returns (uint256 netAmount) {
+        if (received == 0) revert ZeroAmount();
+
+        netAmount = received - feeAmount;
+        _accruedFees += feeAmount;
 
         _mint(to, netAmount);
 
-        emit Deposit(to, amount, feeAmount, netAmount, feeReceiver);
+        emit Deposit(to, received, feeAmount, netAmount, factory.getFeeReceiver());
     }
 
-    function withdraw(uint256 amount) external {
+    function withdraw(uint256 amount) external whenWithdrawalsNotPaused {
+        _withdraw(msg.sender, msg.sender, amount);
+    }
+
+    function withdrawTo(address receiver, uint256 amount) external whenWithdrawalsNotPaused {
+        _withdraw(msg.sender, receiver, amount);
+    }
+
+    /// @notice ERC-4626 withdraw. Burns `previewWithdraw(assets)` shares from `owner` so that
+    /// `receiver` gets exactly `assets` after the withdrawal fee.
+    function withdraw(uint256 assets, address receiver, address owner) external whenWithdrawalsNotPaused returns (uint256) {
+        uint256 shares = previewWithdraw(assets);
+        if (msg.sender != owner) _spendAllowance(owner, msg.sender, shares);
+
+        _burnShares(owner, receiver, shares, shares - assets);
+        return shares;
+    }
+
+    /// @notice ERC-4626 redeem. Burns `shares` from `owner` and sends the assets left after the
+    /// withdrawal fee to `receiver`.
+    function redeem(uint256 shares, address receiver, address owner) external whenWithdrawalsNotPaused returns (uint256) {
+        if (msg.sender != owner) _spendAllowance(owner, msg.sender, shares);
+
+        return _withdraw(owner, receiver, shares);
+    }
+
+    /// @notice Relayed withdrawal: `owner` signs a permit of the wrapped token for the caller,
+    /// which then burns `amount` from `owner` and sends the underlying to `receiver`.
+    function withdrawWithPermit(
+        address owner,
+        address receiver,
+        uint256 amount,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external whenWithdrawalsNotPaused {
+        // Same as `_permitUnderlying`: a front-run permit still leaves the allowance in place.
+        try this.permit(owner, msg.sender, amount, deadline, v, r, s) {
+        } catch {
+            if (allowance(owner, msg.sender) < amount) revert PermitFailed();
+        }
+
+        _spendAllowance(owner, msg.sender, amount);
+        _withdraw(owner, receiver, amount);
+    }
+
+    function _withdraw(address owner, address receiver, uint256 amount) internal returns (uint256) {
+        uint256 feeAmount = (amount * factory.getWithdrawalFeeFor(address(this))) / FEE_DENOMINATOR;
+        return _burnShares(owner, receiver, amount, feeAmount);
+    }
+
+    function _burnShares(address owner, address receiver, uint256 amount, uint256 feeAmount) internal returns (uint256 netAmount) {
         if (amount == 0) revert ZeroAmount();
-        if (balanceOf(msg.sender) < amount) revert InsufficientBalance();
+        if (receiver == address(0)) revert InvalidReceiver();
+        if (balanceOf(owner) < amount) revert InsufficientBalance();
+
+        netAmount = amount - feeAmount;
+        _accruedFees += feeAmount;
+
+        _burn(owner, amount);
+
+        underlyingToken.safeTransfer(receiver, netAmount);
+
+        emit Withdrawal(owner, amount, feeAmount, netAmount, factory.getFeeReceiver());
+    }
+
+    /// @notice Sends the accrued deposit and withdrawal fees to `receiver`. Called by the factory
+    /// through `WrapperFactory.sweepFees`.
+    function collectFees(address receiver) external onlyOwner returns (uint256 amount) {
+        if (receiver == address(0)) revert InvalidReceiver();
+
+        amount = _accruedFees;
+        if (amount == 0) return 0;
 
-        _burn(msg.sender, amount);
+        _accruedFees = 0;
+        underlyingToken.safeTransfer(receiver, amount);
 
-        bool success = underlyingToken.transfer(msg.sender, amount);
-        if (!success) revert TransferFailed();
+        emit FeesCollected(receiver, amount);
+    }
 
-        emit Withdrawal(msg.sender, amount, amount);
+    /// @notice Fees charged on deposits and withdrawals that have not been collected yet.
+    function accruedFees() external view returns (uint256) {
+        return _accruedFees;
     }
 
+    /// @notice Underlying held by the wrapper: the backing of the supply plus the accrued fees.
     function totalUnderlying() external view returns (uint256) {
         return underlyingToken.balanceOf(address(this));
     }
 
+    // ERC-4626 views. Shares and assets are 1:1; only the factory fees make previews differ from
+    // the conversions. Previews cannot account for underlyings that take a fee on transfer.
+
+    function asset() external view returns (address) {
+        return address(underlyingToken);
+    }
+
+    /// @dev Excludes the accrued fees, which belong to the fee receiver.
+    function totalAssets() external view returns (uint256) {
+        return underlyingToken.balanceOf(address(this)) - _accruedFees;
+    }
+
+    function convertToShares(uint256 assets) external pure returns (uint256) {
+        return assets;
+    }
+
+    function convertToAssets(uint256 shares) external pure returns (uint256) {
+        return shares;
+    }
+
+    function maxDeposit(address) external view returns (uint256) {
+        return factory.isDepositPaused(address(this)) ? 0 : type(uint256).max;
+    }
+
+    function maxMint(address) external view returns (uint256) {
+        return factory.isDepositPaused(address(this)) ? 0 : type(uint256).max;
+    }
+
+    /// @dev Rounded down so that `previewWithdraw(maxWithdraw(owner))` never exceeds the balance.
+    function maxWithdraw(address owner) external view returns (uint256) {
+        if (factory.isWithdrawalPaused(address(this))) return 0;
+
+        uint256 fee = factory.getWithdrawalFeeFor(address(this));
+        return Math.mulDiv(balanceOf(owner), FEE_DENOMINATOR - fee, FEE_DENOMINATOR);
+    }
+
+    function maxRedeem(address owner) external view returns (uint256) {
+        return factory.isWithdrawalPaused(address(this)) ? 0 : balanceOf(owner);
+    }
+
+    function previewDeposit(uint256 assets) public view returns (uint256) {
+        return assets - (assets * factory.getDepositFeeFor(address(this))) / FEE_DENOMINATOR;
+    }
+
+    function previewMint(uint256 shares) public view returns (uint256) {
+        return _grossUp(shares, factory.getDepositFeeFor(address(this)));
+    }
+
+    function previewWithdraw(uint256 assets) public view returns (uint256) {
+        return _grossUp(assets, factory.getWithdrawalFeeFor(address(this)));
+    }
+
+    function previewRedeem(uint256 shares) public view returns (uint256) {
+        return shares - (shares * factory.getWithdrawalFeeFor(address(this))) / FEE_DENOMINATOR;
+    }
+
+    /// @dev Smallest gross amount that still leaves `net` after a `fee` cut, rounded up in favor of the wrapper.
+    function _grossUp(uint256 net, uint256 fee) internal pure returns (uint256) {
+        return Math.mulDiv(net, FEE_DENOMINATOR, FEE_DENOMINATOR - fee, Math.Rounding.Ceil);
+    }
+
     function _authorizeUpgrade(address newImplementation) internal override onlyOwner {}
 
-    uint256[50] private __gap;
+    uint256[49] private __gap;
 }
@@ -1,43 +1,125 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
 import "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
 import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
 import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol";
 import {WrapperERC20} from "./WrapperERC20.sol";
+import {TokenMetadata} from "./libraries/TokenMetadata.sol";
 
 contract WrapperFactory is Initializable, AccessControlUpgradeable, UUPSUpgradeable {
 
     bytes32 public constant ADMINISTRATOR_ROLE = keccak256("ADMINISTRATOR");
     bytes32 public constant OPERATOR_ROLE = keccak256("OPERATOR");
     bytes32 public constant TREASURER_ROLE = keccak256("TREASURER");
+    bytes32 public constant GUARDIAN_ROLE = keccak256("GUARDIAN");
 
     address private feeReceiver;
     uint256 private depositFee;
     uint256 public constant MAX_FEE = 2000;
+    uint256 public constant MAX_DELAY = 30 days;
 
     address public wrapperImplementation;
     address [] private _wrappedTokens;
     mapping(address => bool) private _isWrappedToken;
+    mapping(address => address) private _wrapperOf;
+    mapping(address => address) private _underlyingOf;
+
+    struct FeeOverride {
+        bool enabled;
+        uint256 fee;
+    }
+
+    uint256 private withdrawalFee;
+    mapping(address => FeeOverride) private _depositFeeOverrides;
+    mapping(address => FeeOverride) private _withdrawalFeeOverrides;
+
+    struct PauseState {
+        bool deposits;
+        bool withdrawals;
+    }
+
+    PauseState private _globalPause;
+    mapping(address => PauseState) private _wrapperPauses;
+
+    /// @notice Changes that go through schedule/execute once a minimum delay is set.
+    enum Change {
+        DepositFee,
+        FeeReceiver,
+        Implementation,
+        Upgrade,
+        MinDelay,
+        WithdrawalFee,
+        DepositFeeOverride,
+        WithdrawalFeeOverride
+    }
+
+    struct PendingChange {
+        bytes32 value;
+        uint256 readyAt;
+    }
+
+    uint256 private _minDelay;
+    mapping(Change => PendingChange) private _pendingChanges;
+
+    /// @notice Who can call `deployWrappedToken`. OPERATOR_ROLE can always create wrappers.
+    enum CreationMode {
+        Open,
+        OperatorOnly,
+        Allowlist
+    }
+
+    CreationMode private _creationMode;
+    mapping(address => bool) private _allowedTokens;
+    mapping(address => bool) private _deniedTokens;
 
     error ZeroAddress();
     error FeeTooHigh(uint256 maxFee);
     error TokenAlreadyWrapped(address token);
+    error NotWrappedToken(address wrapper);
+    error TimelockActive();
+    error DelayTooLong(uint256 maxDelay);
+    error NoPendingChange(Change change);
+    error ChangeNotReady(Change change, uint256 readyAt);
+    error ChangeAlreadyScheduled(Change change, bytes32 value);
+    error UpgradeNotScheduled(address implementation);
+    error CreationNotAllowed(address token);
+    error TokenDenied(address token);
+    error UnsupportedWrapperCall(bytes4 selector);
 
     event WrappedTokenCreate(address indexed originalToken, address wrappedToken);
     event FeeReceiverChanged(address newReceiver);
     event DepositFeeChanged(uint256 newFee);
+    event WithdrawalFeeChanged(uint256 newFee);
+    event DepositFeeOverrideChanged(address indexed wrapper, bool enabled, uint256 newFee);
+    event WithdrawalFeeOverrideChanged(address indexed wrapper, bool enabled, uint256 newFee);
     event RoleGranted(bytes32 role, address account);
     event RoleRevoked(bytes32 role, address account);
+    event WrapperUpgraded(address indexed wrapper, address indexed implementation);
+    event GlobalPauseChanged(bool depositsPaused, bool withdrawalsPaused);
+    event WrapperPauseChanged(address indexed wrapper, bool depositsPaused, bool withdrawalsPaused);
+    event ChangeScheduled(Change indexed change, bytes32 value, uint256 readyAt);
+    event ChangeExecuted(Change indexed change, bytes32 value);
+    event ChangeCancelled(Change indexed change, bytes32 value);
+    event CreationModeChanged(CreationMode mode);
+    event TokenAllowedChanged(address indexed token, bool allowed);
+    event TokenDeniedChanged(address indexed token, bool denied);
+    event FeesSwept(address indexed wrapper, address indexed receiver, uint256 amount);
 
 
+    /// @dev Direct setters only work while no minimum delay is configured.
+    modifier whenNoTimelock() {
+        if (_minDelay != 0) revert TimelockActive();
+        _;
+    }
+
     modifier onlyValidRole(bytes32 role) {
         require(
             role == ADMINISTRATOR_ROLE || 
             role == OPERATOR_ROLE || 
-            role == TREASURER_ROLE,
+            role == TREASURER_ROLE ||
+            role == GUARDIAN_ROLE,
            "Invalid role"
         );
         _;
@@ -55,6 +137,7 @@ contract WrapperFactory is Initializable, AccessControlUpgradeable, UUPSUpgradea
         
         _setRoleAdmin(OPERATOR_ROLE, ADMINISTRATOR_ROLE);
         _setRoleAdmin(TREASURER_ROLE, ADMINISTRATOR_ROLE);
+        _setRoleAdmin(GUARDIAN_ROLE, ADMINISTRATOR_ROLE);
         
         _grantRole(ADMINISTRATOR_ROLE, _admin);
         _grantRole(OPERATOR_ROLE, _operator);
@@ -65,48 +148,239 @@ contract WrapperFactory is Initializable, AccessControlUpgradeable, UUPSUpgradea
     }
 
 
+    /// @notice Lets ADMINISTRATOR manage GUARDIAN_ROLE on factories initialized before it existed.
+    function initializeV2() public reinitializer(2) {
+        _setRoleAdmin(GUARDIAN_ROLE, ADMINISTRATOR_ROLE);
+    }
+
     function deployWrappedToken(address tokenAddress) public {
+        _deployWrapper(tokenAddress, _wrapperName(tokenAddress), _wrapperSymbol(tokenAddress));
+    }
+
+    /// @notice Deploys a wrapper with a custom name and symbol. Empty values keep the defaults.
+    /// @dev `predictWrapperAddress` only covers the default metadata.
+    function deployWrappedTokenWithMetadata(
+        address tokenAddress,
+        string calldata name,
+        string calldata symbol
+    ) external onlyRole(OPERATOR_ROLE) {
+        _deployWrapper(
+            tokenAddress,
+            bytes(name).length == 0 ? _wrapperName(tokenAddress) : name,
+            bytes(symbol).length == 0 ? _wrapperSymbol(tokenAddress) : symbol
+        );
+    }
+
+    function setCreationMode(CreationMode mode) external onlyRole(ADMINISTRATOR_ROLE) {
+        _creationMode = mode;
+        emit CreationModeChanged(mode);
+    }
+
+    function setTokenAllowed(address token, bool allowed) external onlyRole(OPERATOR_ROLE) {
+        if (token == address(0)) revert ZeroAddress();
+        _allowedTokens[token] = allowed;
+        emit TokenAllowedChanged(token, allowed);
+    }
+
+    /// @notice Denied tokens cannot be wrapped and their existing wrapper stops taking deposits.
+    /// Withdrawals are not affected.
+    function setTokenDenied(address token, bool denied) external onlyRole(OPERATOR_ROLE) {
+        if (token == address(0)) revert ZeroAddress();
+        _deniedTokens[token] = denied;
+        emit TokenDeniedChanged(token, denied);
+    }
+
+    function _deployWrapper(address tokenAddress, string memory name, string memory symbol) internal {
         if (tokenAddress == address(0)) revert ZeroAddress();
         if (_isWrappedToken[tokenAddress]) revert TokenAlreadyWrapped(tokenAddress);
         if (wrapperImplementation == address(0)) revert ZeroAddress(); 
+        _checkCreationAllowed(tokenAddress);
 
-        ERC20 token = ERC20(tokenAddress);
-
-        string memory name = string(abi.encodePacked("Wrapped-", token.name()));
-        string memory symbol = string(abi.encodePacked("W-", token.symbol()));
-
-        bytes memory initData = abi.encodeWithSelector(
-            WrapperERC20.initialize.selector,
-            tokenAddress,
-            address(this),
-            name,
-            symbol
+        ERC1967Proxy proxy = new ERC1967Proxy{salt: _wrapperSalt(tokenAddress)}(
+            wrapperImplementation,
+            _wrapperInitData(tokenAddress, name, symbol)
         );
 
-        ERC1967Proxy proxy = new ERC1967Proxy(wrapperImplementation, initData);
-
         _wrappedTokens.push(address(proxy));
         _isWrappedToken[tokenAddress] = true;
+        _registerWrapper(tokenAddress, address(proxy));
 
         emit WrappedTokenCreate(tokenAddress, address(proxy));
     }
 
-    function setImplementation(address _impl) external onlyRole(ADMINISTRATOR_ROLE) {
-        if (_impl == address(0)) revert ZeroAddress();
-        wrapperImplementation = _impl;
+    function setImplementation(address _impl) external onlyRole(ADMINISTRATOR_ROLE) whenNoTimelock {
+        _setImplementation(_impl);
     }
 
-    function setFeeReceiver(address _newReceiver) public onlyRole(TREASURER_ROLE) {
-        if(_newReceiver == address(0)) revert ZeroAddress();
-        feeReceiver = _newReceiver;
-        emit FeeReceiverChanged(_newReceiver);
+    function upgradeWrapper(address wrapper) external onlyRole(ADMINISTRATOR_ROLE) {
+        _upgradeWrapper(wrapper, "");
     }
 
+    function upgradeWrappers(address[] calldata wrappers) external onlyRole(ADMINISTRATOR_ROLE) {
+        for (uint256 i = 0; i < wrappers.length; i++) {
+            _upgradeWrapper(wrappers[i], "");
+        }
+    }
+
+    /// @notice Upgrades `wrappers` and calls each of them with `data` in the same transaction.
+    /// `data` can only call one of the wrapper reinitializers, `initializeV2` or `initializeV3`,
+    /// so the factory cannot be used to call the `onlyOwner` functions of its wrappers.
+    function upgradeWrappersAndCall(address[] calldata wrappers, bytes calldata data) external onlyRole(ADMINISTRATOR_ROLE) {
+        if (
+            data.length != 4 ||
+            (bytes4(data) != WrapperERC20.initializeV2.selector && bytes4(data) != WrapperERC20.initializeV3.selector)
+        ) revert UnsupportedWrapperCall(bytes4(data));
 
-    function setDepositFee(uint256 _newFee) public onlyRole(OPERATOR_ROLE) {
+        for (uint256 i = 0; i < wrappers.length; i++) {
+            _upgradeWrapper(wrappers[i], data);
+        }
+    }
+
+    function upgradeAllWrappers() external onlyRole(ADMINISTRATOR_ROLE) {
+        for (uint256 i = 0; i < _wrappedTokens.length; i++) {
+            _upgradeWrapper(_wrappedTokens[i], "");
+        }
+    }
+
+    /// @notice Collects the fees accrued by `wrappers` into the fee receiver.
+    function sweepFees(address[] calldata wrappers) external onlyRole(TREASURER_ROLE) returns (uint256 total) {
+        for (uint256 i = 0; i < wrappers.length; i++) {
+            total += _sweepFees(wrappers[i]);
+        }
+    }
+
+    function sweepAllFees() external onlyRole(TREASURER_ROLE) returns (uint256 total) {
+        for (uint256 i = 0; i < _wrappedTokens.length; i++) {
+            total += _sweepFees(_wrappedTokens[i]);
+        }
+    }
+
+    /// @notice Backfills the underlying <-> wrapper lookups for wrappers deployed before they existed.
+    function syncWrappedTokens(uint256 offset, uint256 limit) external onlyRole(ADMINISTRATOR_ROLE) {
+        uint256 end = _pageEnd(offset, limit);
+        for (uint256 i = offset; i < end; i++) {
+            address wrapper = _wrappedTokens[i];
+            _registerWrapper(address(WrapperERC20(wrapper).underlyingToken()), wrapper);
+        }
+    }
+
+    function setFeeReceiver(address _newReceiver) public onlyRole(TREASURER_ROLE) whenNoTimelock {
+        _setFeeReceiver(_newReceiver);
+    }
+
+
+    function setDepositFee(uint256 _newFee) public onlyRole(OPERATOR_ROLE) whenNoTimelock {
+        _setDepositFee(_newFee);
+    }
+
+    function scheduleDepositFee(uint256 _newFee) external onlyRole(OPERATOR_ROLE) {
         if(_newFee >= MAX_FEE) revert FeeTooHigh(MAX_FEE);
-        depositFee = _newFee;
-        emit DepositFeeChanged(_newFee);
+        _schedule(Change.DepositFee, bytes32(_newFee));
+    }
+
+    function scheduleWithdrawalFee(uint256 _newFee) external onlyRole(OPERATOR_ROLE) {
+        if(_newFee >= MAX_FEE) revert FeeTooHigh(MAX_FEE);
+        _schedule(Change.WithdrawalFee, bytes32(_newFee));
+    }
+
+    /// @notice Schedules setting (`enabled`) or clearing the deposit fee override of `wrapper`.
+    /// Only one deposit override change can be pending at a time, for any wrapper.
+    function scheduleDepositFeeOverride(address wrapper, bool enabled, uint256 _newFee) external onlyRole(OPERATOR_ROLE) {
+        _schedule(Change.DepositFeeOverride, _encodeFeeOverride(wrapper, enabled, _newFee));
+    }
+
+    function scheduleWithdrawalFeeOverride(address wrapper, bool enabled, uint256 _newFee) external onlyRole(OPERATOR_ROLE) {
+        _schedule(Change.WithdrawalFeeOverride, _encodeFeeOverride(wrapper, enabled, _newFee));
+    }
+
+    function scheduleFeeReceiver(address _newReceiver) external onlyRole(TREASURER_ROLE) {
+        if(_newReceiver == address(0)) revert ZeroAddress();
+        _schedule(Change.FeeReceiver, bytes32(uint256(uint160(_newReceiver))));
+    }
+
+    function scheduleImplementation(address _impl) external onlyRole(ADMINISTRATOR_ROLE) {
+        if (_impl == address(0)) revert ZeroAddress();
+        _schedule(Change.Implementation, bytes32(uint256(uint160(_impl))));
+    }
+
+    /// @notice Schedules the factory upgrade to `newImplementation`. Once ready it is applied with
+    /// `executeChange(Change.Upgrade)` or `upgradeToAndCall(newImplementation, data)`.
+    function scheduleUpgrade(address newImplementation) external onlyRole(ADMINISTRATOR_ROLE) {
+        if (newImplementation == address(0)) revert ZeroAddress();
+        _schedule(Change.Upgrade, bytes32(uint256(uint160(newImplementation))));
+    }
+
+    function scheduleMinDelay(uint256 newDelay) external onlyRole(ADMINISTRATOR_ROLE) {
+        if (newDelay > MAX_DELAY) revert DelayTooLong(MAX_DELAY);
+        _schedule(Change.MinDelay, bytes32(newDelay));
+    }
+
+    /// @notice Applies a scheduled change once its delay has passed.
+    function executeChange(Change change) external onlyRole(_changeRole(change)) {
+        if (change == Change.Upgrade) {
+            if (_pendingChanges[change].readyAt == 0) revert NoPendingChange(change);
+            // `_authorizeUpgrade` checks the delay and consumes the scheduled upgrade.
+            upgradeToAndCall(address(uint160(uint256(_pendingChanges[change].value))), "");
+            return;
+        }
+
+        bytes32 value = _consumeChange(change);
+
+        if (change == Change.DepositFee) _setDepositFee(uint256(value));
+        else if (change == Change.FeeReceiver) _setFeeReceiver(address(uint160(uint256(value))));
+        else if (change == Change.Implementation) _setImplementation(address(uint160(uint256(value))));
+        else if (change == Change.MinDelay) _minDelay = uint256(value);
+        else if (change == Change.WithdrawalFee) _setWithdrawalFee(uint256(value));
+        else {
+            (address wrapper, bool enabled, uint256 fee) = _decodeFeeOverride(value);
+            if (change == Change.DepositFeeOverride) _setDepositFeeOverride(wrapper, enabled, fee);
+            else _setWithdrawalFeeOverride(wrapper, enabled, fee);
+        }
+    }
+
+    /// @notice Drops a scheduled change. Callable by the role that schedules it and by GUARDIAN_ROLE.
+    function cancelChange(Change change) external {
+        bytes32 role = _changeRole(change);
+        if (!hasRole(role, msg.sender) && !hasRole(GUARDIAN_ROLE, msg.sender)) {
+            revert AccessControlUnauthorizedAccount(msg.sender, role);
+        }
+
+        PendingChange memory pending = _pendingChanges[change];
+        if (pending.readyAt == 0) revert NoPendingChange(change);
+
+        delete _pendingChanges[change];
+        emit ChangeCancelled(change, pending.value);
+    }
+
+    function setWithdrawalFee(uint256 _newFee) public onlyRole(OPERATOR_ROLE) whenNoTimelock {
+        _setWithdrawalFee(_newFee);
+    }
+
+    function setDepositFeeOverride(address wrapper, uint256 _newFee) public onlyRole(OPERATOR_ROLE) whenNoTimelock {
+        _setDepositFeeOverride(wrapper, true, _newFee);
+    }
+
+    function clearDepositFeeOverride(address wrapper) public onlyRole(OPERATOR_ROLE) whenNoTimelock {
+        _setDepositFeeOverride(wrapper, false, 0);
+    }
+
+    function setWithdrawalFeeOverride(address wrapper, uint256 _newFee) public onlyRole(OPERATOR_ROLE) whenNoTimelock {
+        _setWithdrawalFeeOverride(wrapper, true, _newFee);
+    }
+
+    function clearWithdrawalFeeOverride(address wrapper) public onlyRole(OPERATOR_ROLE) whenNoTimelock {
+        _setWithdrawalFeeOverride(wrapper, false, 0);
+    }
+
+    function setGlobalPause(bool depositsPaused, bool withdrawalsPaused) external onlyRole(GUARDIAN_ROLE) {
+        _globalPause = PauseState(depositsPaused, withdrawalsPaused);
+        emit GlobalPauseChanged(depositsPaused, withdrawalsPaused);
+    }
+
+    function setWrapperPause(address wrapper, bool depositsPaused, bool withdrawalsPaused) external onlyRole(GUARDIAN_ROLE) {
+        if (_underlyingOf[wrapper] == address(0)) revert NotWrappedToken(wrapper);
+        _wrapperPauses[wrapper] = PauseState(depositsPaused, withdrawalsPaused);
+        emit WrapperPauseChanged(wrapper, depositsPaused, withdrawalsPaused);
     }
 
     function grantRole(bytes32 role, address account) public override onlyValidRole(role) onlyRole(getRoleAdmin(role)) {
@@ -123,6 +397,76 @@ contract WrapperFactory is Initializable, AccessControlUpgradeable, UUPSUpgradea
         return _wrappedTokens;
     }
 
+    function getWrappedTokens(uint256 offset, uint256 limit) external view returns(address[] memory page) {
+        uint256 end = _pageEnd(offset, limit);
+        page = new address[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            page[i - offset] = _wrappedTokens[i];
+        }
+    }
+
+    function wrappedTokensCount() external view returns(uint256) {
+        return _wrappedTokens.length;
+    }
+
+    function wrapperOf(address underlying) external view returns(address) {
+        return _wrapperOf[underlying];
+    }
+
+    function underlyingOf(address wrapper) external view returns(address) {
+        return _underlyingOf[wrapper];
+    }
+
+    /// @notice Address `deployWrappedToken(underlying)` deploys to with the current implementation and token metadata.
+    function predictWrapperAddress(address underlying) external view returns(address){
+        bytes memory initCode = abi.encodePacked(
+            type(ERC1967Proxy).creationCode,
+            abi.encode(
+                wrapperImplementation,
+                _wrapperInitData(underlying, _wrapperName(underlying), _wrapperSymbol(underlying))
+            )
+        );
+
+        return address(uint160(uint256(keccak256(
+            abi.encodePacked(bytes1(0xff), address(this), _wrapperSalt(underlying), keccak256(initCode))
+        ))));
+    }
+
+    function getCreationMode() external view returns(CreationMode){
+        return _creationMode;
+    }
+
+    function isTokenAllowed(address token) external view returns(bool){
+        return _allowedTokens[token];
+    }
+
+    function isTokenDenied(address token) external view returns(bool){
+        return _deniedTokens[token];
+    }
+
+    /// @notice Fees accrued by `wrapper`; zero for wrappers that predate fee accrual.
+    function getAccruedFees(address wrapper) external view returns(uint256){
+        return _accruedFeesOf(wrapper);
+    }
+
+    /// @notice Sum of the fees accrued by every wrapper, in units of each underlying.
+    /// @dev Only meaningful off-chain, as wrappers have different underlyings and decimals.
+    function getTotalAccruedFees() external view returns(uint256 total){
+        for (uint256 i = 0; i < _wrappedTokens.length; i++) {
+            total += _accruedFeesOf(_wrappedTokens[i]);
+        }
+    }
+
+    function getMinDelay() external view returns(uint256){
+        return _minDelay;
+    }
+
+    /// @notice Value and execution time of the scheduled `change`; `readyAt` is zero when none is pending.
+    function getPendingChange(Change change) external view returns(bytes32 value, uint256 readyAt){
+        PendingChange storage pending = _pendingChanges[change];
+        return (pending.value, pending.readyAt);
+    }
+
     function getFeeReceiver() external view returns(address){
         return feeReceiver;
     }
@@ -130,10 +474,212 @@ contract WrapperFactory is Initializable, AccessControlUpgradeable, UUPSUpgradea
     function getDepositFee() external view returns(uint256){
         return depositFee;
     }
- 
 
-    function _authorizeUpgrade(address newImplementation) internal override onlyRole(ADMINISTRATOR_ROLE) {}
+    function getWithdrawalFee() external view returns(uint256){
+        return withdrawalFee;
+    }
+
+    /// @notice Deposit fee charged by `wrapper`: its override if set, the global deposit fee otherwise.
+    function getDepositFeeFor(address wrapper) external view returns(uint256){
+        FeeOverride storage feeOverride = _depositFeeOverrides[wrapper];
+        return feeOverride.enabled ? feeOverride.fee : depositFee;
+    }
+
+    /// @notice Withdrawal fee charged by `wrapper`: its override if set, the global withdrawal fee otherwise.
+    function getWithdrawalFeeFor(address wrapper) external view returns(uint256){
+        FeeOverride storage feeOverride = _withdrawalFeeOverrides[wrapper];
+        return feeOverride.enabled ? feeOverride.fee : withdrawalFee;
+    }
+
+
+    function getGlobalPause() external view returns(bool depositsPaused, bool withdrawalsPaused){
+        return (_globalPause.deposits, _globalPause.withdrawals);
+    }
+
+    function getWrapperPause(address wrapper) external view returns(bool depositsPaused, bool withdrawalsPaused){
+        PauseState storage pause = _wrapperPauses[wrapper];
+        return (pause.deposits, pause.withdrawals);
+    }
+
+    /// @notice Also true when the underlying of `wrapper` is denied.
+    function isDepositPaused(address wrapper) external view returns(bool){
+        return _globalPause.deposits || _wrapperPauses[wrapper].deposits || _deniedTokens[_underlyingOf[wrapper]];
+    }
+
+    function isWithdrawalPaused(address wrapper) external view returns(bool){
+        return _globalPause.withdrawals || _wrapperPauses[wrapper].withdrawals;
+    }
+
+    function _setDepositFee(uint256 _newFee) internal {
+        if(_newFee >= MAX_FEE) revert FeeTooHigh(MAX_FEE);
+        depositFee = _newFee;
+        emit DepositFeeChanged(_newFee);
+    }
+
+    function _setWithdrawalFee(uint256 _newFee) internal {
+        if(_newFee >= MAX_FEE) revert FeeTooHigh(MAX_FEE);
+        withdrawalFee = _newFee;
+        emit WithdrawalFeeChanged(_newFee);
+    }
+
+    function _setDepositFeeOverride(address wrapper, bool enabled, uint256 _newFee) internal {
+        _setFeeOverride(_depositFeeOverrides, wrapper, enabled, _newFee);
+        emit DepositFeeOverrideChanged(wrapper, enabled, _newFee);
+    }
+
+    function _setWithdrawalFeeOverride(address wrapper, bool enabled, uint256 _newFee) internal {
+        _setFeeOverride(_withdrawalFeeOverrides, wrapper, enabled, _newFee);
+        emit WithdrawalFeeOverrideChanged(wrapper, enabled, _newFee);
+    }
+
+    function _setFeeReceiver(address _newReceiver) internal {
+        if(_newReceiver == address(0)) revert ZeroAddress();
+        feeReceiver = _newReceiver;
+        emit FeeReceiverChanged(_newReceiver);
+    }
+
+    function _setImplementation(address _impl) internal {
+        if (_impl == address(0)) revert ZeroAddress();
+        wrapperImplementation = _impl;
+    }
+
+    /// @dev A pending change has to be executed or cancelled first, so it is never replaced silently.
+    function _schedule(Change change, bytes32 value) internal {
+        PendingChange storage pending = _pendingChanges[change];
+        if (pending.readyAt != 0) revert ChangeAlreadyScheduled(change, pending.value);
+
+        uint256 readyAt = block.timestamp + _minDelay;
+        _pendingChanges[change] = PendingChange(value, readyAt);
+        emit ChangeScheduled(change, value, readyAt);
+    }
+
+    function _consumeChange(Change change) internal returns (bytes32 value) {
+        PendingChange memory pending = _pendingChanges[change];
+        if (pending.readyAt == 0) revert NoPendingChange(change);
+        if (block.timestamp < pending.readyAt) revert ChangeNotReady(change, pending.readyAt);
+
+        delete _pendingChanges[change];
+        emit ChangeExecuted(change, pending.value);
+        return pending.value;
+    }
+
+    /// @dev Packs a fee override as wrapper (160 bits) | enabled (1 bit) | fee (95 bits).
+    function _encodeFeeOverride(address wrapper, bool enabled, uint256 fee) internal view returns (bytes32) {
+        if (_underlyingOf[wrapper] == address(0)) revert NotWrappedToken(wrapper);
+        if (fee >= MAX_FEE) revert FeeTooHigh(MAX_FEE);
+        if (!enabled) fee = 0;
+
+        return bytes32((uint256(uint160(wrapper)) << 96) | (enabled ? 1 << 95 : 0) | fee);
+    }
+
+    function _decodeFeeOverride(bytes32 value) internal pure returns (address wrapper, bool enabled, uint256 fee) {
+        wrapper = address(uint160(uint256(value) >> 96));
+        enabled = (uint256(value) >> 95) & 1 == 1;
+        fee = uint256(value) & ((1 << 95) - 1);
+    }
+
+    function _changeRole(Change change) internal pure returns (bytes32) {
+        if (
+            change == Change.DepositFee ||
+            change == Change.WithdrawalFee ||
+            change == Change.DepositFeeOverride ||
+            change == Change.WithdrawalFeeOverride
+        ) return OPERATOR_ROLE;
+        if (change == Change.FeeReceiver) return TREASURER_ROLE;
+        return ADMINISTRATOR_ROLE;
+    }
+
+    function _upgradeWrapper(address wrapper, bytes memory data) internal {
+        if (wrapperImplementation == address(0)) revert ZeroAddress();
+        if (_underlyingOf[wrapper] == address(0)) revert NotWrappedToken(wrapper);
+
+        UUPSUpgradeable(wrapper).upgradeToAndCall(wrapperImplementation, data);
+
+        emit WrapperUpgraded(wrapper, wrapperImplementation);
+    }
+
+    function _wrapperSalt(address underlying) internal pure returns (bytes32) {
+        return bytes32(uint256(uint160(underlying)));
+    }
+
+    function _sweepFees(address wrapper) internal returns (uint256 amount) {
+        if (_underlyingOf[wrapper] == address(0)) revert NotWrappedToken(wrapper);
+        if (_accruedFeesOf(wrapper) == 0) return 0;
+
+        amount = WrapperERC20(wrapper).collectFees(feeReceiver);
+        emit FeesSwept(wrapper, feeReceiver, amount);
+    }
+
+    function _accruedFeesOf(address wrapper) internal view returns (uint256) {
+        try WrapperERC20(wrapper).accruedFees() returns (uint256 amount) {
+            return amount;
+        } catch {
+            return 0;
+        }
+    }
+
+    function _checkCreationAllowed(address token) internal view {
+        if (_deniedTokens[token]) revert TokenDenied(token);
+        if (_creationMode == CreationMode.Open || hasRole(OPERATOR_ROLE, msg.sender)) return;
+        if (_creationMode == CreationMode.Allowlist && _allowedTokens[token]) return;
+
+        revert CreationNotAllowed(token);
+    }
+
+    function _wrapperName(address underlying) internal view returns (string memory) {
+        return string(abi.encodePacked("Wrapped-", TokenMetadata.name(underlying)));
+    }
+
+    function _wrapperSymbol(address underlying) internal view returns (string memory) {
+        return string(abi.encodePacked("W-", TokenMetadata.symbol(underlying)));
+    }
+
+    function _wrapperInitData(
+        address underlying,
+        string memory name,
+        string memory symbol
+    ) internal view returns (bytes memory) {
+        return abi.encodeWithSelector(
+            WrapperERC20.initialize.selector,
+            underlying,
+            address(this),
+            name,
+            symbol
+        );
+    }
+
+    function _registerWrapper(address underlying, address wrapper) internal {
+        _wrapperOf[underlying] = wrapper;
+        _underlyingOf[wrapper] = underlying;
+    }
+
+    function _setFeeOverride(
+        mapping(address => FeeOverride) storage overrides,
+        address wrapper,
+        bool enabled,
+        uint256 fee
+    ) internal {
+        if (_underlyingOf[wrapper] == address(0)) revert NotWrappedToken(wrapper);
+        if (fee >= MAX_FEE) revert FeeTooHigh(MAX_FEE);
+        overrides[wrapper] = FeeOverride(enabled, fee);
+    }
+
+    function _pageEnd(uint256 offset, uint256 limit) internal view returns (uint256) {
+        uint256 length = _wrappedTokens.length;
+        if (offset >= length) return offset;
+        return limit > length - offset ? length : offset + limit;
+    }
+
+    /// @dev Without a minimum delay upgrades are immediate; otherwise `newImplementation` must be scheduled.
+    function _authorizeUpgrade(address newImplementation) internal override onlyRole(ADMINISTRATOR_ROLE) {
+        if (_minDelay == 0 && _pendingChanges[Change.Upgrade].readyAt == 0) return;
+
+        if (_pendingChanges[Change.Upgrade].value != bytes32(uint256(uint160(newImplementation)))) {
+            revert UpgradeNotScheduled(newImplementation);
+        }
+        _consumeChange(Change.Upgrade);
+    }
 
-    uint256[50] private __gap;
+    uint256[38] private __gap;
 
 }
\ No newline at end of file
@@ -0,0 +1,61 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/utils/Strings.sol";
+
+/// @notice Reads ERC20 metadata from tokens that return `bytes32` or do not implement it at all.
+library TokenMetadata {
+    function name(address token) internal view returns (string memory) {
+        (bool found, string memory value) = _readString(token, 0x06fdde03); // name()
+        return found ? value : Strings.toHexString(token);
+    }
+
+    function symbol(address token) internal view returns (string memory) {
+        (bool found, string memory value) = _readString(token, 0x95d89b41); // symbol()
+        return found ? value : "UNKNOWN";
+    }
+
+    /// @dev Falls back to 18 when the call fails or does not return a `uint8`.
+    function decimals(address token) internal view returns (uint8) {
+        (bool success, bytes memory data) = token.staticcall(abi.encodeWithSelector(0x313ce567)); // decimals()
+        if (success && data.length >= 32) {
+            uint256 value = abi.decode(data, (uint256));
+            if (value <= type(uint8).max) return uint8(value);
+        }
+        return 18;
+    }
+
+    function _readString(address token, bytes4 selector) private view returns (bool, string memory) {
+        (bool success, bytes memory data) = token.staticcall(abi.encodeWithSelector(selector));
+        if (!success) return (false, "");
+
+        if (data.length == 32) {
+            return (true, _bytes32ToString(abi.decode(data, (bytes32))));
+        }
+
+        if (data.length >= 64 && abi.decode(data, (uint256)) == 32) {
+            uint256 length;
+            assembly {
+                length := mload(add(data, 64))
+            }
+            if (data.length >= 64 + length) {
+                return (true, abi.decode(data, (string)));
+            }
+        }
+
+        return (false, "");
+    }
+
+    function _bytes32ToString(bytes32 value) private pure returns (string memory) {
+        uint256 length;
+        while (length < 32 && value[length] != 0) {
+            length++;
+        }
+
+        bytes memory result = new bytes(length);
+        for (uint256 i = 0; i < length; i++) {
+            result[i] = value[i];
+        }
+        return string(result);
+    }
+}
@@ -0,0 +1,34 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/// @notice MKR-style token whose `name()` and `symbol()` return `bytes32`.
+contract Bytes32MetadataToken is ERC20 {
+    uint256 public constant INITIAL_SUPPLY = 20000000000e18;
+
+    bytes32 private immutable _name;
+    bytes32 private immutable _symbol;
+
+    constructor(bytes32 name_, bytes32 symbol_) ERC20("", "") {
+        _name = name_;
+        _symbol = symbol_;
+        _mint(msg.sender, INITIAL_SUPPLY);
+    }
+
+    /// @dev Returns the raw `bytes32` instead of an ABI-encoded string.
+    function name() public view override returns (string memory) {
+        _returnBytes32(_name);
+    }
+
+    function symbol() public view override returns (string memory) {
+        _returnBytes32(_symbol);
+    }
+
+    function _returnBytes32(bytes32 value) private pure {
+        assembly {
+            mstore(0, value)
+            return(0, 32)
+        }
+    }
+}
@@ -0,0 +1,27 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/// @notice Burns `transferFee` basis points of every transfer between two accounts.
+contract FeeOnTransferToken is ERC20 {
+    uint256 public constant INITIAL_SUPPLY = 20000000000e18;
+
+    uint256 public transferFee;
+
+    constructor(string memory name, string memory symbol, uint256 _transferFee) ERC20(name, symbol) {
+        transferFee = _transferFee;
+        _mint(msg.sender, INITIAL_SUPPLY);
+    }
+
+    function _update(address from, address to, uint256 value) internal override {
+        if (from == address(0) || to == address(0)) {
+            super._update(from, to, value);
+            return;
+        }
+
+        uint256 fee = (value * transferFee) / 10000;
+        super._update(from, address(0), fee);
+        super._update(from, to, value - fee);
+    }
+}
@@ -0,0 +1,63 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {IPermit2} from "../IPermit2.sol";
+
+/// @notice Follows Permit2's `permitWitnessTransferFrom` hashing. Keeps no immutables so its
+/// runtime code can be placed at the canonical Permit2 address with `hardhat_setCode`.
+contract MockPermit2 is IPermit2 {
+    bytes32 private constant TOKEN_PERMISSIONS_TYPEHASH = keccak256("TokenPermissions(address token,uint256 amount)");
+
+    string private constant PERMIT_WITNESS_TRANSFER_FROM_TYPEHASH_STUB =
+        "PermitWitnessTransferFrom(TokenPermissions permitted,address spender,uint256 nonce,uint256 deadline,";
+
+    mapping(address => mapping(uint256 => bool)) public usedNonces;
+
+    function DOMAIN_SEPARATOR() public view returns (bytes32) {
+        return keccak256(
+            abi.encode(
+                keccak256("EIP712Domain(string name,uint256 chainId,address verifyingContract)"),
+                keccak256("Permit2"),
+                block.chainid,
+                address(this)
+            )
+        );
+    }
+
+    function permitWitnessTransferFrom(
+        PermitTransferFrom memory permit,
+        SignatureTransferDetails calldata transferDetails,
+        address owner,
+        bytes32 witness,
+        string calldata witnessTypeString,
+        bytes calldata signature
+    ) external {
+        require(block.timestamp <= permit.deadline, "SignatureExpired");
+        require(transferDetails.requestedAmount <= permit.permitted.amount, "InvalidAmount");
+        require(!usedNonces[owner][permit.nonce], "InvalidNonce");
+        usedNonces[owner][permit.nonce] = true;
+
+        bytes32 typeHash = keccak256(abi.encodePacked(PERMIT_WITNESS_TRANSFER_FROM_TYPEHASH_STUB, witnessTypeString));
+        bytes32 dataHash = keccak256(
+            abi.encode(
+                typeHash,
+                keccak256(abi.encode(TOKEN_PERMISSIONS_TYPEHASH, permit.permitted)),
+                msg.sender,
+                permit.nonce,
+                permit.deadline,
+                witness
+            )
+        );
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", DOMAIN_SEPARATOR(), dataHash));
+        require(ECDSA.recover(digest, signature) == owner, "InvalidSigner");
+
+        SafeERC20.safeTransferFrom(
+            IERC20(permit.permitted.token),
+            owner,
+            transferDetails.to,
+            transferDetails.requestedAmount
+        );
+    }
+}
@@ -0,0 +1,8 @@
+import { buildWrappedTokensModule, parseTokenList } from "./WrapperFactory";
+
+/**
+ * Deploys the system and pre-wraps the tokens of `WRAPPED_TOKENS`:
+ *
+ * WRAPPED_TOKENS=0x...,0x... npx hardhat ignition deploy ignition/modules/WrappedTokens.ts
+ */
+export default buildWrappedTokensModule(parseTokenList(process.env.WRAPPED_TOKENS ?? ""));
@@ -0,0 +1,90 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import { isAddress } from "ethers";
+
+const DEFAULT_DEPOSIT_FEE = 100n;
+
+/**
+ * Deploys the wrapper implementation and the factory behind an ERC1967 proxy.
+ * ADMINISTRATOR_ROLE cannot be granted after initialization and `setImplementation`
+ * has to be sent by the administrator, so the administrator is the first account
+ * of the network instead of a parameter. The deployments are sent by Ignition's
+ * default sender, which can be another account (`--default-sender`).
+ */
+const WrapperFactoryModule = buildModule("WrapperFactoryModule", (m) => {
+  const admin = m.getAccount(0);
+
+  const operator = m.getParameter("operator", admin);
+  const treasurer = m.getParameter("treasurer", admin);
+  const feeReceiver = m.getParameter("feeReceiver", admin);
+  const initialFee = m.getParameter("initialFee", DEFAULT_DEPOSIT_FEE);
+
+  const wrapperImplementation = m.contract("WrapperERC20", [], {
+    id: "WrapperERC20Implementation",
+  });
+
+  const factoryImplementation = m.contract("WrapperFactory", [], {
+    id: "WrapperFactoryImplementation",
+  });
+
+  const initData = m.encodeFunctionCall(factoryImplementation, "initialize", [
+    admin,
+    operator,
+    treasurer,
+    feeReceiver,
+    initialFee,
+  ]);
+
+  const proxy = m.contract("ERC1967Proxy", [factoryImplementation, initData]);
+
+  const factory = m.contractAt("WrapperFactory", proxy, { id: "WrapperFactory" });
+
+  m.call(factory, "setImplementation", [wrapperImplementation], { from: admin });
+
+  return { factory, proxy, factoryImplementation, wrapperImplementation };
+});
+
+/**
+ * Parses a comma-separated list of underlying token addresses, e.g. the
+ * `WRAPPED_TOKENS` environment variable read by `WrappedTokens.ts`.
+ */
+export function parseTokenList(value: string): string[] {
+  const tokens = value.split(",").map((token) => token.trim()).filter((token) => token !== "");
+  if (tokens.length === 0) throw new Error("No tokens to wrap, expected a comma-separated list of addresses");
+
+  for (const token of tokens) {
+    if (!isAddress(token)) throw new Error(`Invalid token address ${token}`);
+  }
+
+  return tokens;
+}
+
+/**
+ * Builds a module that deploys the system through `WrapperFactoryModule` and
+ * pre-wraps each of the given underlying tokens. Ignition only resolves
+ * parameters at execution time, so the token list is fixed when the module is
+ * built; `WrappedTokens.ts` builds it from the command line.
+ */
+export function buildWrappedTokensModule(tokens: string[]) {
+  return buildModule("WrappedTokensModule", (m) => {
+    const { factory } = m.useModule(WrapperFactoryModule);
+
+    const wrappers = tokens.map((token, index) => {
+      const deployment = m.call(factory, "deployWrappedToken", [token], {
+        id: `deployWrappedToken_${index}`,
+      });
+
+      const wrapperAddress = m.readEventArgument(deployment, "WrappedTokenCreate", "wrappedToken", {
+        id: `wrappedToken_${index}`,
+      });
+
+      return m.contractAt("WrapperERC20", wrapperAddress, { id: `WrapperERC20_${index}` });
+    });
+
+    return {
+      factory,
+      ...Object.fromEntries(wrappers.map((wrapper, index) => [`wrapper${index}`, wrapper])),
+    };
+  });
+}
+
+export default WrapperFactoryModule;
@@ -0,0 +1,213 @@
+import { ContractTransactionReceipt, Log, Provider, Signature, Signer, ZeroAddress, getAddress } from "ethers";
+import {
+  ERC20Permit__factory,
+  WrapperERC20,
+  WrapperERC20__factory,
+  WrapperFactory,
+  WrapperFactory__factory,
+} from "../typechain-types";
+import type { DepositEvent, WithdrawalEvent } from "../typechain-types/contracts/WrapperERC20";
+import type { WrappedTokenCreateEvent } from "../typechain-types/contracts/WrapperFactory";
+
+const DEFAULT_PERMIT_VALIDITY = 3600n;
+
+export interface WrapOptions {
+  /** Account credited with the wrapped tokens. Defaults to the signer. */
+  beneficiary?: string;
+  /** Set to false to always approve instead of signing an EIP-2612 permit. */
+  permit?: boolean;
+  /** Permit deadline in seconds since epoch. Defaults to one hour from the latest block. */
+  deadline?: bigint;
+}
+
+export interface DepositPreview {
+  amount: bigint;
+  feeAmount: bigint;
+  wrappedAmount: bigint;
+}
+
+export type WrapperEvent =
+  | { name: "Deposit"; address: string; log: Log; args: DepositEvent.OutputObject }
+  | { name: "Withdrawal"; address: string; log: Log; args: WithdrawalEvent.OutputObject }
+  | { name: "WrappedTokenCreate"; address: string; log: Log; args: WrappedTokenCreateEvent.OutputObject };
+
+export class WrapperNotFoundError extends Error {
+  constructor(public readonly underlying: string) {
+    super(`No wrapper registered for ${underlying}`);
+    this.name = "WrapperNotFoundError";
+  }
+}
+
+const wrapperInterface = WrapperERC20__factory.createInterface();
+const factoryInterface = WrapperFactory__factory.createInterface();
+
+/**
+ * Decodes `Deposit`, `Withdrawal` and `WrappedTokenCreate` events, skipping
+ * any other log. Logs are not filtered by emitter.
+ */
+export function decodeWrapperEvents(logs: readonly Log[]): WrapperEvent[] {
+  const events: WrapperEvent[] = [];
+
+  for (const log of logs) {
+    const wrapperLog = wrapperInterface.parseLog(log);
+    if (wrapperLog?.name === "Deposit") {
+      events.push({ name: "Deposit", address: log.address, log, args: wrapperLog.args.toObject() as DepositEvent.OutputObject });
+      continue;
+    }
+    if (wrapperLog?.name === "Withdrawal") {
+      events.push({ name: "Withdrawal", address: log.address, log, args: wrapperLog.args.toObject() as WithdrawalEvent.OutputObject });
+      continue;
+    }
+
+    const factoryLog = factoryInterface.parseLog(log);
+    if (factoryLog?.name === "WrappedTokenCreate") {
+      events.push({
+        name: "WrappedTokenCreate",
+        address: log.address,
+        log,
+        args: factoryLog.args.toObject() as WrappedTokenCreateEvent.OutputObject,
+      });
+    }
+  }
+
+  return events;
+}
+
+export class WrapperClient {
+  readonly factory: WrapperFactory;
+
+  constructor(factoryAddress: string, readonly signer: Signer) {
+    // Fails early for signers without a provider, which cannot read the registry or sign permits.
+    this.getProvider();
+    this.factory = WrapperFactory__factory.connect(factoryAddress, signer);
+  }
+
+  async findWrapper(underlying: string): Promise<WrapperERC20 | null> {
+    const wrapper = await this.factory.wrapperOf(underlying);
+    if (wrapper === ZeroAddress) return null;
+
+    return WrapperERC20__factory.connect(wrapper, this.signer);
+  }
+
+  async previewDeposit(underlying: string, amount: bigint): Promise<DepositPreview> {
+    const wrapper = await this.getWrapper(underlying);
+
+    const [fee, denominator] = await Promise.all([
+      this.factory.getDepositFeeFor(await wrapper.getAddress()),
+      wrapper.FEE_DENOMINATOR(),
+    ]);
+    const feeAmount = (amount * fee) / denominator;
+
+    return { amount, feeAmount, wrappedAmount: amount - feeAmount };
+  }
+
+  /**
+   * Deposits `amount` of `underlying` into its wrapper. Uses the existing
+   * allowance when it covers the amount, otherwise signs an EIP-2612 permit
+   * when the token supports it and falls back to an `approve` transaction.
+   */
+  async wrap(underlying: string, amount: bigint, options: WrapOptions = {}): Promise<ContractTransactionReceipt> {
+    const wrapper = await this.getWrapper(underlying);
+    const wrapperAddress = await wrapper.getAddress();
+    const owner = await this.signer.getAddress();
+    const beneficiary = options.beneficiary ?? owner;
+
+    const token = ERC20Permit__factory.connect(underlying, this.signer);
+    const allowance = await token.allowance(owner, wrapperAddress);
+
+    if (allowance < amount && options.permit !== false && (await this.supportsPermit(underlying))) {
+      const deadline = options.deadline ?? (await this.latestTimestamp()) + DEFAULT_PERMIT_VALIDITY;
+      const { v, r, s } = await this.signPermit(underlying, wrapperAddress, amount, deadline);
+
+      return this.send(wrapper.depositWithPermit(owner, beneficiary, amount, deadline, v, r, s));
+    }
+
+    if (getAddress(beneficiary) !== getAddress(owner)) {
+      throw new Error("A beneficiary other than the signer requires a permit");
+    }
+
+    if (allowance < amount) {
+      await this.send(token.approve(wrapperAddress, amount));
+    }
+
+    return this.send(wrapper["deposit(uint256)"](amount));
+  }
+
+  async unwrap(underlying: string, amount: bigint): Promise<ContractTransactionReceipt> {
+    const wrapper = await this.getWrapper(underlying);
+
+    return this.send(wrapper["withdraw(uint256)"](amount));
+  }
+
+  decodeEvents(receipt: ContractTransactionReceipt): WrapperEvent[] {
+    return decodeWrapperEvents(receipt.logs);
+  }
+
+  private async getWrapper(underlying: string): Promise<WrapperERC20> {
+    const wrapper = await this.findWrapper(underlying);
+    if (!wrapper) throw new WrapperNotFoundError(underlying);
+
+    return wrapper;
+  }
+
+  private async supportsPermit(underlying: string): Promise<boolean> {
+    const token = ERC20Permit__factory.connect(underlying, this.signer);
+    try {
+      await token.DOMAIN_SEPARATOR();
+      await token.nonces(await this.signer.getAddress());
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async signPermit(underlying: string, spender: string, value: bigint, deadline: bigint): Promise<Signature> {
+    const token = ERC20Permit__factory.connect(underlying, this.signer);
+    const owner = await this.signer.getAddress();
+    const { chainId } = await this.getProvider().getNetwork();
+
+    let name: string;
+    let version = "1";
+    try {
+      ({ name, version } = await token.eip712Domain());
+    } catch {
+      name = await token.name();
+    }
+
+    const signature = await this.signer.signTypedData(
+      { name, version, chainId, verifyingContract: underlying },
+      {
+        Permit: [
+          { name: "owner", type: "address" },
+          { name: "spender", type: "address" },
+          { name: "value", type: "uint256" },
+          { name: "nonce", type: "uint256" },
+          { name: "deadline", type: "uint256" },
+        ],
+      },
+      { owner, spender, value, nonce: await token.nonces(owner), deadline }
+    );
+
+    return Signature.from(signature);
+  }
+
+  private async latestTimestamp(): Promise<bigint> {
+    const block = await this.getProvider().getBlock("latest");
+    if (!block) throw new Error("Could not fetch the latest block");
+
+    return BigInt(block.timestamp);
+  }
+
+  private getProvider(): Provider {
+    if (!this.signer.provider) throw new Error("WrapperClient needs a signer connected to a provider");
+
+    return this.signer.provider;
+  }
+
+  private async send(tx: Promise<{ wait(): Promise<ContractTransactionReceipt | null> }>): Promise<ContractTransactionReceipt> {
+    const receipt = await (await tx).wait();
+    if (!receipt) throw new Error("Transaction was not mined");
+
+    return receipt;
+  }
+}
@@ -0,0 +1,287 @@
+import { Interface, Log, Provider, ZeroHash, getAddress } from "ethers";
+import { WrapperERC20__factory, WrapperFactory__factory } from "../typechain-types";
+
+const DEFAULT_BLOCK_BATCH = 10_000;
+
+// AccessControl events, the factory also emits a legacy two-argument variant from grantRole/revokeRole.
+const ROLE_GRANTED = "RoleGranted(bytes32,address,address)";
+const ROLE_REVOKED = "RoleRevoked(bytes32,address,address)";
+
+// ERC-1967 implementation slot, read for wrappers created before the scanned range.
+const IMPLEMENTATION_SLOT = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+export interface IndexOptions {
+  fromBlock?: number;
+  /** Defaults to the latest block. Onchain balances are also read at this block. */
+  toBlock?: number;
+  /** Maximum block range requested per `eth_getLogs` call. */
+  blockBatch?: number;
+}
+
+export type FactoryEvent =
+  | { name: "WrappedTokenCreate"; blockNumber: number; transactionHash: string; underlying: string; wrapper: string }
+  | { name: "FeeReceiverChanged"; blockNumber: number; transactionHash: string; receiver: string }
+  | { name: "DepositFeeChanged"; blockNumber: number; transactionHash: string; fee: bigint }
+  | { name: "RoleGranted" | "RoleRevoked"; blockNumber: number; transactionHash: string; role: string; account: string; sender: string };
+
+export interface WrapperTotals {
+  wrapper: string;
+  underlying: string;
+  /** Block of the `WrappedTokenCreate` event, null when the wrapper was created before `fromBlock`. */
+  createdAtBlock: number | null;
+  deposits: number;
+  withdrawals: number;
+  /** Underlying received by deposits, fees included. */
+  deposited: bigint;
+  depositFees: bigint;
+  /** Wrapped tokens burned by withdrawals. */
+  withdrawn: bigint;
+  withdrawalFees: bigint;
+  /** Underlying sent to the withdrawal receivers. */
+  paidOut: bigint;
+  feesCollected: bigint;
+  netSupply: bigint;
+  accruedFees: bigint;
+  expectedUnderlying: bigint;
+}
+
+export interface WrapperReconciliation extends WrapperTotals {
+  totalSupply: bigint;
+  totalUnderlying: bigint;
+  supplyDelta: bigint;
+  underlyingDelta: bigint;
+  reconciled: boolean;
+}
+
+export interface ReconciliationReport {
+  factory: string;
+  fromBlock: number;
+  toBlock: number;
+  events: FactoryEvent[];
+  wrappers: WrapperReconciliation[];
+}
+
+const factoryInterface = WrapperFactory__factory.createInterface();
+const wrapperInterface = WrapperERC20__factory.createInterface();
+// Wrappers deployed before withdrawal fees emit a three-argument Withdrawal and, like every
+// implementation before fee accrual, send the fees straight to the fee receiver.
+const legacyWrapperInterface = new Interface([
+  "event Withdrawal(address indexed user, uint256 wrappedAmount, uint256 underlyingAmount)",
+]);
+
+/**
+ * Scans the factory and wrapper events over a block range and rebuilds the
+ * per-wrapper totals. Totals only cover the scanned range, so they reconcile
+ * against `totalSupply` and `totalUnderlying` when the range starts at or
+ * before the factory deployment. Fees charged while a wrapper ran an
+ * implementation without fee accrual count as collected right away.
+ */
+export async function reconcileWrappers(provider: Provider, factoryAddress: string, options: IndexOptions = {}): Promise<ReconciliationReport> {
+  const fromBlock = options.fromBlock ?? 0;
+  const toBlock = options.toBlock ?? (await provider.getBlockNumber());
+  const blockBatch = options.blockBatch ?? DEFAULT_BLOCK_BATCH;
+  if (blockBatch <= 0) throw new Error("blockBatch must be greater than zero");
+  if (fromBlock > toBlock) throw new Error(`fromBlock ${fromBlock} is after toBlock ${toBlock}`);
+
+  const factory = WrapperFactory__factory.connect(factoryAddress, provider);
+  const events: FactoryEvent[] = [];
+  const totals = new Map<string, WrapperTotals>();
+
+  for (const log of await getLogs(provider, [factoryAddress], fromBlock, toBlock, blockBatch)) {
+    const event = decodeFactoryEvent(log);
+    if (!event) continue;
+
+    events.push(event);
+    if (event.name === "WrappedTokenCreate") {
+      totals.set(event.wrapper.toLowerCase(), emptyTotals(event.wrapper, event.underlying, event.blockNumber));
+    }
+  }
+
+  // Wrappers created before the range are still in the registry.
+  for (const wrapper of await factory["getWrappedTokens()"]({ blockTag: toBlock })) {
+    if (totals.has(wrapper.toLowerCase())) continue;
+    totals.set(wrapper.toLowerCase(), emptyTotals(wrapper, await factory.underlyingOf(wrapper, { blockTag: toBlock }), null));
+  }
+
+  // Whether each wrapper accrues its fees, starting from the implementation it ran before the range.
+  const accrues = new Map<string, boolean>();
+  const accrualSupport = new Map<string, Promise<boolean>>();
+  const supportsAccrual = (implementation: string) => {
+    const key = implementation.toLowerCase();
+    if (!accrualSupport.has(key)) accrualSupport.set(key, implementsAccrual(provider, implementation, toBlock));
+    return accrualSupport.get(key)!;
+  };
+
+  for (const entry of totals.values()) {
+    if (entry.createdAtBlock !== null || fromBlock === 0) continue;
+
+    const slot = await provider.getStorage(entry.wrapper, IMPLEMENTATION_SLOT, fromBlock - 1);
+    if (slot !== ZeroHash) accrues.set(entry.wrapper.toLowerCase(), await supportsAccrual(getAddress("0x" + slot.slice(26))));
+  }
+
+  const wrappers = [...totals.values()].map((entry) => entry.wrapper);
+  for (const log of await getLogs(provider, wrappers, fromBlock, toBlock, blockBatch)) {
+    const key = log.address.toLowerCase();
+    const entry = totals.get(key);
+    if (!entry) continue;
+
+    const parsed = wrapperInterface.parseLog(log);
+    if (parsed?.name === "Upgraded") {
+      accrues.set(key, await supportsAccrual(parsed.args.implementation));
+    } else {
+      applyWrapperLog(entry, log, accrues.get(key) ?? true);
+    }
+  }
+
+  const report: WrapperReconciliation[] = [];
+  for (const entry of totals.values()) {
+    const wrapper = WrapperERC20__factory.connect(entry.wrapper, provider);
+    const totalSupply = await wrapper.totalSupply({ blockTag: toBlock });
+    const totalUnderlying = await wrapper.totalUnderlying({ blockTag: toBlock });
+
+    entry.netSupply = entry.deposited - entry.depositFees - entry.withdrawn;
+    entry.accruedFees = entry.depositFees + entry.withdrawalFees - entry.feesCollected;
+    entry.expectedUnderlying = entry.deposited - entry.paidOut - entry.feesCollected;
+
+    const supplyDelta = totalSupply - entry.netSupply;
+    const underlyingDelta = totalUnderlying - entry.expectedUnderlying;
+
+    report.push({
+      ...entry,
+      totalSupply,
+      totalUnderlying,
+      supplyDelta,
+      underlyingDelta,
+      reconciled: supplyDelta === 0n && underlyingDelta === 0n,
+    });
+  }
+
+  return { factory: factoryAddress, fromBlock, toBlock, events, wrappers: report };
+}
+
+/** Serializes a report, writing bigints as decimal strings. */
+export function reportToJson(report: ReconciliationReport): string {
+  return JSON.stringify(report, (_, value) => (typeof value === "bigint" ? value.toString() : value), 2);
+}
+
+/** One CSV row per wrapper with its totals and reconciliation. */
+export function reportToCsv(report: ReconciliationReport): string {
+  const columns: (keyof WrapperReconciliation)[] = [
+    "wrapper",
+    "underlying",
+    "createdAtBlock",
+    "deposits",
+    "withdrawals",
+    "deposited",
+    "depositFees",
+    "withdrawn",
+    "withdrawalFees",
+    "paidOut",
+    "feesCollected",
+    "netSupply",
+    "accruedFees",
+    "expectedUnderlying",
+    "totalSupply",
+    "totalUnderlying",
+    "supplyDelta",
+    "underlyingDelta",
+    "reconciled",
+  ];
+
+  const rows = report.wrappers.map((entry) => columns.map((column) => String(entry[column] ?? "")).join(","));
+  return [columns.join(","), ...rows].join("\n");
+}
+
+async function getLogs(provider: Provider, address: string[], fromBlock: number, toBlock: number, blockBatch: number): Promise<Log[]> {
+  if (address.length === 0) return [];
+
+  const logs: Log[] = [];
+  for (let start = fromBlock; start <= toBlock; start += blockBatch) {
+    const end = Math.min(start + blockBatch - 1, toBlock);
+    logs.push(...(await provider.getLogs({ address, fromBlock: start, toBlock: end })));
+  }
+
+  return logs;
+}
+
+function decodeFactoryEvent(log: Log): FactoryEvent | null {
+  const parsed = factoryInterface.parseLog(log);
+  if (!parsed) return null;
+
+  const { blockNumber, transactionHash } = log;
+  switch (parsed.signature) {
+    case "WrappedTokenCreate(address,address)":
+      return { name: "WrappedTokenCreate", blockNumber, transactionHash, underlying: parsed.args.originalToken, wrapper: parsed.args.wrappedToken };
+    case "FeeReceiverChanged(address)":
+      return { name: "FeeReceiverChanged", blockNumber, transactionHash, receiver: parsed.args.newReceiver };
+    case "DepositFeeChanged(uint256)":
+      return { name: "DepositFeeChanged", blockNumber, transactionHash, fee: parsed.args.newFee };
+    case ROLE_GRANTED:
+    case ROLE_REVOKED:
+      return {
+        name: parsed.name as "RoleGranted" | "RoleRevoked",
+        blockNumber,
+        transactionHash,
+        role: parsed.args.role,
+        account: parsed.args.account,
+        sender: parsed.args.sender,
+      };
+    default:
+      return null;
+  }
+}
+
+function applyWrapperLog(entry: WrapperTotals, log: Log, accrues: boolean) {
+  const parsed = wrapperInterface.parseLog(log);
+
+  if (parsed?.name === "Deposit") {
+    entry.deposits++;
+    entry.deposited += parsed.args.amountDeposited;
+    entry.depositFees += parsed.args.feeAmount;
+    if (!accrues) entry.feesCollected += parsed.args.feeAmount;
+  } else if (parsed?.name === "Withdrawal") {
+    entry.withdrawals++;
+    entry.withdrawn += parsed.args.wrappedAmount;
+    entry.withdrawalFees += parsed.args.feeAmount;
+    entry.paidOut += parsed.args.underlyingAmount;
+    if (!accrues) entry.feesCollected += parsed.args.feeAmount;
+  } else if (parsed?.name === "FeesCollected") {
+    entry.feesCollected += parsed.args.amount;
+  } else if (!parsed) {
+    const legacy = legacyWrapperInterface.parseLog(log);
+    if (legacy?.name !== "Withdrawal") return;
+
+    entry.withdrawals++;
+    entry.withdrawn += legacy.args.wrappedAmount;
+    entry.paidOut += legacy.args.underlyingAmount;
+  }
+}
+
+/** Implementations with fee accrual expose `accruedFees`, older ones revert on the call. */
+async function implementsAccrual(provider: Provider, implementation: string, blockTag: number): Promise<boolean> {
+  try {
+    await provider.call({ to: implementation, data: wrapperInterface.encodeFunctionData("accruedFees"), blockTag });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function emptyTotals(wrapper: string, underlying: string, createdAtBlock: number | null): WrapperTotals {
+  return {
+    wrapper,
+    underlying,
+    createdAtBlock,
+    deposits: 0,
+    withdrawals: 0,
+    deposited: 0n,
+    depositFees: 0n,
+    withdrawn: 0n,
+    withdrawalFees: 0n,
+    paidOut: 0n,
+    feesCollected: 0n,
+    netSupply: 0n,
+    accruedFees: 0n,
+    expectedUnderlying: 0n,
+  };
+}
@@ -0,0 +1,3 @@
+export * from "./WrapperClient";
+export * from "./predictWrapperAddress";
+export * from "./WrapperIndexer";
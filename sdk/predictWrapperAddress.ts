@@ -0,0 +1,33 @@
+import { AbiCoder, concat, getCreate2Address, keccak256, zeroPadValue } from "ethers";
+import { ERC1967Proxy__factory, WrapperERC20__factory } from "../typechain-types";
+
+export interface WrapperAddressInput {
+  /** WrapperFactory proxy that deploys the wrapper. */
+  factory: string;
+  /** Underlying token, also used as the CREATE2 salt. */
+  underlying: string;
+  /** WrapperERC20 implementation set on the factory at deployment time. */
+  implementation: string;
+  /** Calldata of `WrapperERC20.initialize`, see `encodeWrapperInitData`. */
+  initData: string;
+}
+
+export function wrapperSalt(underlying: string): string {
+  return zeroPadValue(underlying, 32);
+}
+
+/**
+ * Encodes the `initialize` call the factory passes to the wrapper proxy.
+ * `name` and `symbol` are the final wrapper metadata, e.g. "Wrapped-USDT".
+ */
+export function encodeWrapperInitData(underlying: string, factory: string, name: string, symbol: string): string {
+  return WrapperERC20__factory.createInterface().encodeFunctionData("initialize", [underlying, factory, name, symbol]);
+}
+
+/** Computes the CREATE2 address `WrapperFactory.deployWrappedToken` deploys the wrapper to. */
+export function predictWrapperAddress({ factory, underlying, implementation, initData }: WrapperAddressInput): string {
+  const constructorArgs = AbiCoder.defaultAbiCoder().encode(["address", "bytes"], [implementation, initData]);
+  const initCode = concat([ERC1967Proxy__factory.bytecode, constructorArgs]);
+
+  return getCreate2Address(factory, wrapperSalt(underlying), keccak256(initCode));
+}
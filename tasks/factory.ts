@@ -0,0 +1,263 @@
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { WrapperFactory } from "../typechain-types";
+
+export const ROLE_NAMES = ["ADMINISTRATOR", "OPERATOR", "TREASURER", "GUARDIAN"] as const;
+
+export type RoleName = (typeof ROLE_NAMES)[number];
+
+/** Same order as `WrapperFactory.CreationMode`. */
+export const CREATION_MODES = ["Open", "OperatorOnly", "Allowlist"] as const;
+
+/** Same order as `WrapperFactory.Change`. */
+export const CHANGE_NAMES = [
+  "DepositFee",
+  "FeeReceiver",
+  "Implementation",
+  "Upgrade",
+  "MinDelay",
+  "WithdrawalFee",
+  "DepositFeeOverride",
+  "WithdrawalFeeOverride",
+] as const;
+
+export interface FactoryCall {
+  to: string;
+  data: string;
+  hash?: string;
+}
+
+async function getFactory(hre: HardhatRuntimeEnvironment, address: string): Promise<WrapperFactory> {
+  requireAddress(hre, "factory", address);
+  return (await hre.ethers.getContractAt("WrapperFactory", address)) as unknown as WrapperFactory;
+}
+
+function requireAddress(hre: HardhatRuntimeEnvironment, param: string, value: string) {
+  if (!hre.ethers.isAddress(value)) throw new Error(`${param} is not a valid address: ${value}`);
+  if (value === hre.ethers.ZeroAddress) throw new Error(`${param} cannot be the zero address`);
+}
+
+function changeIndex(change: string): number {
+  const index = CHANGE_NAMES.findIndex((name) => name.toLowerCase() === change.toLowerCase());
+  if (index === -1) throw new Error(`Invalid change ${change}, expected one of ${CHANGE_NAMES.join(", ")}`);
+  return index;
+}
+
+/** Uses the schedule variant of a setter once the factory has a minimum delay. */
+async function setterFor(factory: WrapperFactory, setter: string, schedule: string): Promise<string> {
+  if ((await factory.getMinDelay()) === 0n) return setter;
+
+  console.log(`Timelock active, ${schedule} will only take effect after executeChange`);
+  return schedule;
+}
+
+function roleHash(hre: HardhatRuntimeEnvironment, role: string): string {
+  const name = role.toUpperCase();
+  if (!(ROLE_NAMES as readonly string[]).includes(name)) {
+    throw new Error(`Invalid role ${role}, expected one of ${ROLE_NAMES.join(", ")}`);
+  }
+  return hre.ethers.id(name);
+}
+
+/**
+ * Sends `data` to the factory with the default signer, or only prints the
+ * call when `dryRun` is set so it can be submitted through a multisig.
+ */
+async function submit(hre: HardhatRuntimeEnvironment, factory: WrapperFactory, data: string, dryRun: boolean): Promise<FactoryCall> {
+  const to = await factory.getAddress();
+
+  if (dryRun) {
+    console.log(JSON.stringify({ to, data }, null, 2));
+    return { to, data };
+  }
+
+  const [signer] = await hre.ethers.getSigners();
+  const tx = await signer.sendTransaction({ to, data });
+  await tx.wait();
+  console.log(`Transaction ${tx.hash} confirmed`);
+
+  return { to, data, hash: tx.hash };
+}
+
+task("factory:status", "Prints the configuration of a WrapperFactory")
+  .addParam("factory", "Address of the WrapperFactory proxy")
+  .setAction(async (args, hre) => {
+    const factory = await getFactory(hre, args.factory);
+
+    const status = {
+      implementation: await hre.upgrades.erc1967.getImplementationAddress(args.factory),
+      wrapperImplementation: await factory.wrapperImplementation(),
+      feeReceiver: await factory.getFeeReceiver(),
+      depositFee: (await factory.getDepositFee()).toString(),
+      withdrawalFee: (await factory.getWithdrawalFee()).toString(),
+      maxFee: (await factory.MAX_FEE()).toString(),
+      minDelay: (await factory.getMinDelay()).toString(),
+      wrappedTokens: (await factory.wrappedTokensCount()).toString(),
+      accruedFees: (await factory.getTotalAccruedFees()).toString(),
+      creationMode: CREATION_MODES[Number(await factory.getCreationMode())],
+    };
+
+    console.table(status);
+    return status;
+  });
+
+task("factory:roles", "Prints the factory roles and, optionally, which of them an account holds")
+  .addParam("factory", "Address of the WrapperFactory proxy")
+  .addOptionalParam("account", "Account to check the roles of")
+  .setAction(async (args, hre) => {
+    const factory = await getFactory(hre, args.factory);
+    if (args.account) requireAddress(hre, "account", args.account);
+
+    const roles = [];
+    for (const name of ROLE_NAMES) {
+      const hash = roleHash(hre, name);
+      roles.push({
+        name,
+        hash,
+        admin: await factory.getRoleAdmin(hash),
+        ...(args.account ? { granted: await factory.hasRole(hash, args.account) } : {}),
+      });
+    }
+
+    console.table(roles);
+    return roles;
+  });
+
+task("factory:grant", "Grants a factory role to an account")
+  .addParam("factory", "Address of the WrapperFactory proxy")
+  .addParam("role", `One of ${ROLE_NAMES.join(", ")}`)
+  .addParam("account", "Account receiving the role")
+  .addFlag("dryRun", "Print the calldata instead of sending the transaction")
+  .setAction(async (args, hre) => {
+    const factory = await getFactory(hre, args.factory);
+    const role = roleHash(hre, args.role);
+    requireAddress(hre, "account", args.account);
+
+    return submit(hre, factory, factory.interface.encodeFunctionData("grantRole", [role, args.account]), args.dryRun);
+  });
+
+task("factory:revoke", "Revokes a factory role from an account")
+  .addParam("factory", "Address of the WrapperFactory proxy")
+  .addParam("role", `One of ${ROLE_NAMES.join(", ")}`)
+  .addParam("account", "Account losing the role")
+  .addFlag("dryRun", "Print the calldata instead of sending the transaction")
+  .setAction(async (args, hre) => {
+    const factory = await getFactory(hre, args.factory);
+    const role = roleHash(hre, args.role);
+    requireAddress(hre, "account", args.account);
+
+    return submit(hre, factory, factory.interface.encodeFunctionData("revokeRole", [role, args.account]), args.dryRun);
+  });
+
+task("factory:set-fee", "Sets the deposit fee, in basis points")
+  .addParam("factory", "Address of the WrapperFactory proxy")
+  .addParam("fee", "New deposit fee out of FEE_DENOMINATOR (10000)", undefined, types.bigint)
+  .addFlag("dryRun", "Print the calldata instead of sending the transaction")
+  .setAction(async (args, hre) => {
+    const factory = await getFactory(hre, args.factory);
+
+    const maxFee = await factory.MAX_FEE();
+    if (args.fee < 0n || args.fee >= maxFee) throw new Error(`fee must be lower than MAX_FEE (${maxFee})`);
+
+    const fn = await setterFor(factory, "setDepositFee", "scheduleDepositFee");
+    return submit(hre, factory, factory.interface.encodeFunctionData(fn as "setDepositFee", [args.fee]), args.dryRun);
+  });
+
+task("factory:set-receiver", "Sets the fee receiver")
+  .addParam("factory", "Address of the WrapperFactory proxy")
+  .addParam("receiver", "New fee receiver")
+  .addFlag("dryRun", "Print the calldata instead of sending the transaction")
+  .setAction(async (args, hre) => {
+    const factory = await getFactory(hre, args.factory);
+    requireAddress(hre, "receiver", args.receiver);
+
+    const fn = await setterFor(factory, "setFeeReceiver", "scheduleFeeReceiver");
+    return submit(hre, factory, factory.interface.encodeFunctionData(fn as "setFeeReceiver", [args.receiver]), args.dryRun);
+  });
+
+task("factory:set-implementation", "Sets the implementation used for new wrappers")
+  .addParam("factory", "Address of the WrapperFactory proxy")
+  .addParam("implementation", "Deployed WrapperERC20 implementation")
+  .addFlag("dryRun", "Print the calldata instead of sending the transaction")
+  .setAction(async (args, hre) => {
+    const factory = await getFactory(hre, args.factory);
+    requireAddress(hre, "implementation", args.implementation);
+
+    if ((await hre.ethers.provider.getCode(args.implementation)) === "0x") {
+      throw new Error(`implementation has no code: ${args.implementation}`);
+    }
+
+    const fn = await setterFor(factory, "setImplementation", "scheduleImplementation");
+    return submit(hre, factory, factory.interface.encodeFunctionData(fn as "setImplementation", [args.implementation]), args.dryRun);
+  });
+
+task("factory:wrap", "Deploys the wrapper of an underlying token")
+  .addParam("factory", "Address of the WrapperFactory proxy")
+  .addParam("token", "Underlying ERC20 token")
+  .addFlag("dryRun", "Print the calldata instead of sending the transaction")
+  .setAction(async (args, hre) => {
+    const factory = await getFactory(hre, args.factory);
+    requireAddress(hre, "token", args.token);
+
+    const wrapper = await factory.wrapperOf(args.token);
+    if (wrapper !== hre.ethers.ZeroAddress) throw new Error(`token is already wrapped by ${wrapper}`);
+
+    return submit(hre, factory, factory.interface.encodeFunctionData("deployWrappedToken", [args.token]), args.dryRun);
+  });
+
+task("factory:sweep-fees", "Collects the fees accrued by the wrappers into the fee receiver")
+  .addParam("factory", "Address of the WrapperFactory proxy")
+  .addOptionalParam("wrappers", "Comma separated wrappers to sweep, every wrapper by default")
+  .addFlag("dryRun", "Print the calldata instead of sending the transaction")
+  .setAction(async (args, hre) => {
+    const factory = await getFactory(hre, args.factory);
+
+    if (!args.wrappers) {
+      return submit(hre, factory, factory.interface.encodeFunctionData("sweepAllFees"), args.dryRun);
+    }
+
+    const wrappers: string[] = args.wrappers.split(",").map((wrapper: string) => wrapper.trim());
+    wrappers.forEach((wrapper) => requireAddress(hre, "wrapper", wrapper));
+
+    return submit(hre, factory, factory.interface.encodeFunctionData("sweepFees", [wrappers]), args.dryRun);
+  });
+
+task("factory:pending", "Prints the changes scheduled on the factory timelock")
+  .addParam("factory", "Address of the WrapperFactory proxy")
+  .setAction(async (args, hre) => {
+    const factory = await getFactory(hre, args.factory);
+
+    const pending = [];
+    for (const [index, name] of CHANGE_NAMES.entries()) {
+      const [value, readyAt] = await factory.getPendingChange(index);
+      if (readyAt !== 0n) pending.push({ change: name, value, readyAt: new Date(Number(readyAt) * 1000).toISOString() });
+    }
+
+    console.table(pending);
+    return pending;
+  });
+
+task("factory:execute", "Executes a scheduled change once its delay has passed")
+  .addParam("factory", "Address of the WrapperFactory proxy")
+  .addParam("change", `One of ${CHANGE_NAMES.join(", ")}`)
+  .addFlag("dryRun", "Print the calldata instead of sending the transaction")
+  .setAction(async (args, hre) => {
+    const factory = await getFactory(hre, args.factory);
+    const change = changeIndex(args.change);
+
+    const [, readyAt] = await factory.getPendingChange(change);
+    if (readyAt === 0n) throw new Error(`No ${CHANGE_NAMES[change]} change is scheduled`);
+
+    return submit(hre, factory, factory.interface.encodeFunctionData("executeChange", [change]), args.dryRun);
+  });
+
+task("factory:cancel", "Cancels a scheduled change")
+  .addParam("factory", "Address of the WrapperFactory proxy")
+  .addParam("change", `One of ${CHANGE_NAMES.join(", ")}`)
+  .addFlag("dryRun", "Print the calldata instead of sending the transaction")
+  .setAction(async (args, hre) => {
+    const factory = await getFactory(hre, args.factory);
+    const change = changeIndex(args.change);
+
+    return submit(hre, factory, factory.interface.encodeFunctionData("cancelChange", [change]), args.dryRun);
+  });
@@ -0,0 +1,39 @@
+import { writeFileSync } from "fs";
+import { task, types } from "hardhat/config";
+
+const FORMATS = ["json", "csv"];
+
+task("factory:reconcile", "Rebuilds the wrapper totals from events and reconciles them against the onchain balances")
+  .addParam("factory", "Address of the WrapperFactory proxy")
+  .addOptionalParam("fromBlock", "First block to scan, usually the factory deployment block", 0, types.int)
+  .addOptionalParam("toBlock", "Last block to scan, the latest block by default", undefined, types.int)
+  .addOptionalParam("blockBatch", "Maximum block range per eth_getLogs request", undefined, types.int)
+  .addOptionalParam("format", `One of ${FORMATS.join(", ")}`, "json")
+  .addOptionalParam("out", "File to write the report to instead of printing it")
+  .setAction(async (args, hre) => {
+    if (!hre.ethers.isAddress(args.factory)) throw new Error(`factory is not a valid address: ${args.factory}`);
+    if (!FORMATS.includes(args.format)) throw new Error(`Invalid format ${args.format}, expected one of ${FORMATS.join(", ")}`);
+
+    // The indexer needs the generated typechain bindings, which only exist after compiling,
+    // so it is loaded when the task runs instead of when the config is.
+    const { reconcileWrappers, reportToCsv, reportToJson } = await import("../sdk/WrapperIndexer");
+
+    const report = await reconcileWrappers(hre.ethers.provider, args.factory, {
+      fromBlock: args.fromBlock,
+      toBlock: args.toBlock,
+      blockBatch: args.blockBatch,
+    });
+    const output = args.format === "csv" ? reportToCsv(report) : reportToJson(report);
+
+    if (args.out) {
+      writeFileSync(args.out, output);
+      console.log(`Wrote ${report.wrappers.length} wrappers to ${args.out}`);
+    } else {
+      console.log(output);
+    }
+
+    const unreconciled = report.wrappers.filter((entry) => !entry.reconciled);
+    if (unreconciled.length > 0) console.warn(`${unreconciled.length} wrappers do not reconcile`);
+
+    return report;
+  });
@@ -0,0 +1,97 @@
+import { task, types } from "hardhat/config";
+import type { WrapperFactory } from "../typechain-types";
+
+const DEFAULT_BATCH_SIZE = 20;
+// Mirrors the selectors accepted by `WrapperFactory.upgradeWrappersAndCall`.
+const REINITIALIZERS = ["initializeV2", "initializeV3"];
+
+task("factory:upgrade-wrappers", "Rolls out a new WrapperERC20 implementation to every deployed wrapper")
+  .addParam("factory", "Address of the WrapperFactory proxy")
+  .addOptionalParam("contract", "Contract name of the new wrapper implementation", "WrapperERC20")
+  .addOptionalParam("reference", "Contract name of the implementation the wrappers run, used when the upgrades manifest does not know it")
+  .addOptionalParam("implementation", "Already deployed implementation address (skips deployment)")
+  .addOptionalParam("batchSize", "Wrappers upgraded per transaction", DEFAULT_BATCH_SIZE, types.int)
+  .addOptionalParam("offset", "Index in the registry to resume the rollout from", 0, types.int)
+  .addOptionalParam("call", `Reinitializer called on each wrapper, one of ${REINITIALIZERS.join(", ")}`)
+  .setAction(async (args, hre) => {
+    const { ethers, upgrades } = hre;
+
+    if (args.batchSize <= 0) throw new Error("batchSize must be greater than zero");
+    if (args.call && !REINITIALIZERS.includes(args.call)) {
+      throw new Error(`Invalid call ${args.call}, expected one of ${REINITIALIZERS.join(", ")}`);
+    }
+
+    const newFactory = await ethers.getContractFactory(args.contract as string);
+    const factory = (await ethers.getContractAt("WrapperFactory", args.factory)) as unknown as WrapperFactory;
+    const count = Number(await factory.wrappedTokensCount());
+
+    // The new layout is checked against the implementations the wrappers run. Those deployed
+    // outside the upgrades plugin are imported into the manifest from --reference first.
+    const deployed = new Set<string>();
+    for (let start = args.offset; start < count; start += args.batchSize) {
+      for (const wrapper of await factory["getWrappedTokens(uint256,uint256)"](start, args.batchSize)) {
+        deployed.add(await upgrades.erc1967.getImplementationAddress(wrapper));
+      }
+    }
+
+    for (const current of deployed) {
+      try {
+        await upgrades.validateUpgrade(current, newFactory, { kind: "uups" });
+      } catch (error) {
+        if (!(error instanceof Error) || !error.message.includes("is not registered")) throw error;
+        if (!args.reference) {
+          throw new Error(`Wrapper implementation ${current} is not in the upgrades manifest, pass the contract it was built from with --reference`);
+        }
+
+        await upgrades.forceImport(current, await ethers.getContractFactory(args.reference as string), { kind: "uups" });
+        // Fails with a descriptive error when the new layout is not compatible.
+        await upgrades.validateUpgrade(current, newFactory, { kind: "uups" });
+      }
+      console.log(`Storage layout of ${args.contract} is compatible with the implementation at ${current}`);
+    }
+
+    const callData = args.call ? newFactory.interface.encodeFunctionData(args.call as string) : undefined;
+
+    const currentImplementation = await factory.wrapperImplementation();
+
+    // With the timelock active setImplementation reverts, the implementation has to go through
+    // factory:set-implementation and factory:execute before the rollout.
+    if ((await factory.getMinDelay()) > 0n) {
+      if (!args.implementation || (args.implementation as string).toLowerCase() !== currentImplementation.toLowerCase()) {
+        throw new Error(
+          "The factory timelock is active: schedule the implementation with factory:set-implementation, " +
+            `apply it with factory:execute once ready and pass it with --implementation (current ${currentImplementation})`
+        );
+      }
+    }
+
+    let implementation: string = args.implementation;
+    if (!implementation) {
+      implementation = (await upgrades.deployImplementation(newFactory, { kind: "uups" })) as string;
+      console.log(`Deployed ${args.contract} implementation at ${implementation}`);
+    }
+
+    if (currentImplementation.toLowerCase() !== implementation.toLowerCase()) {
+      await (await factory.setImplementation(implementation)).wait();
+      console.log(`Factory implementation set to ${implementation}`);
+    }
+
+    for (let start = args.offset; start < count; start += args.batchSize) {
+      const batch = await factory["getWrappedTokens(uint256,uint256)"](start, args.batchSize);
+
+      const pending: string[] = [];
+      for (const wrapper of batch) {
+        const current = await upgrades.erc1967.getImplementationAddress(wrapper);
+        if (current.toLowerCase() !== implementation.toLowerCase()) pending.push(wrapper);
+      }
+
+      if (pending.length > 0) {
+        const tx = callData ? factory.upgradeWrappersAndCall(pending, callData) : factory.upgradeWrappers(pending);
+        await (await tx).wait();
+      }
+
+      console.log(`Upgraded ${pending.length} wrappers in [${start}, ${start + batch.length})`);
+    }
+
+    return implementation;
+  });
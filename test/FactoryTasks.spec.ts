@@ -0,0 +1,235 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { deployWrapperFactory } from "./helpers/fixtures";
+
+describe("Factory tasks", function () {
+  async function deployFactoryTasksFixture() {
+    // Tasks send transactions with the first signer, so it holds every role.
+    const [admin, feeReceiver, otherAccount] = await ethers.getSigners();
+
+    const { factory, wrapperImplementation } = await deployWrapperFactory({ admin, operator: admin, treasurer: admin, feeReceiver });
+
+    const BaseToken = await ethers.getContractFactory("BaseToken");
+    const usdtTokenTest = await BaseToken.deploy("USDT", "USDT");
+    await usdtTokenTest.waitForDeployment();
+
+    return { factory, factoryAddress: await factory.getAddress(), admin, feeReceiver, otherAccount, usdtTokenTest, wrapperImplementation };
+  }
+
+  describe("factory:status", function () {
+    it("Should report the factory configuration", async function () {
+      const { factoryAddress, feeReceiver, wrapperImplementation } = await loadFixture(deployFactoryTasksFixture);
+
+      const status = await hre.run("factory:status", { factory: factoryAddress });
+
+      expect(status).to.deep.include({
+        wrapperImplementation: wrapperImplementation.target,
+        feeReceiver: feeReceiver.address,
+        depositFee: "100",
+        maxFee: "2000",
+        wrappedTokens: "0",
+        accruedFees: "0",
+        minDelay: "0",
+        creationMode: "Open",
+      });
+    });
+  });
+
+  describe("factory:roles", function () {
+    it("Should report the roles held by an account", async function () {
+      const { factoryAddress, feeReceiver } = await loadFixture(deployFactoryTasksFixture);
+
+      const roles = await hre.run("factory:roles", { factory: factoryAddress, account: feeReceiver.address });
+
+      expect(roles.map((role: { name: string }) => role.name)).to.deep.equal(["ADMINISTRATOR", "OPERATOR", "TREASURER", "GUARDIAN"]);
+      expect(roles.every((role: { granted: boolean }) => !role.granted)).to.be.true;
+    });
+  });
+
+  describe("factory:grant", function () {
+    it("Should grant a role", async function () {
+      const { factory, factoryAddress, otherAccount } = await loadFixture(deployFactoryTasksFixture);
+
+      await hre.run("factory:grant", { factory: factoryAddress, role: "operator", account: otherAccount.address });
+
+      expect(await factory.hasRole(await factory.OPERATOR_ROLE(), otherAccount.address)).to.be.true;
+    });
+
+    it("Should reject roles outside the valid set", async function () {
+      const { factoryAddress, otherAccount } = await loadFixture(deployFactoryTasksFixture);
+
+      await expect(
+        hre.run("factory:grant", { factory: factoryAddress, role: "DEFAULT_ADMIN", account: otherAccount.address })
+      ).to.be.rejectedWith("Invalid role");
+    });
+
+    it("Should only print the calldata in dry-run mode", async function () {
+      const { factory, factoryAddress, otherAccount } = await loadFixture(deployFactoryTasksFixture);
+
+      const call = await hre.run("factory:grant", {
+        factory: factoryAddress,
+        role: "TREASURER",
+        account: otherAccount.address,
+        dryRun: true,
+      });
+
+      expect(call).to.deep.equal({
+        to: factoryAddress,
+        data: factory.interface.encodeFunctionData("grantRole", [await factory.TREASURER_ROLE(), otherAccount.address]),
+      });
+      expect(await factory.hasRole(await factory.TREASURER_ROLE(), otherAccount.address)).to.be.false;
+    });
+  });
+
+  describe("factory:revoke", function () {
+    it("Should revoke a role", async function () {
+      const { factory, factoryAddress, admin } = await loadFixture(deployFactoryTasksFixture);
+
+      await hre.run("factory:revoke", { factory: factoryAddress, role: "TREASURER", account: admin.address });
+
+      expect(await factory.hasRole(await factory.TREASURER_ROLE(), admin.address)).to.be.false;
+    });
+  });
+
+  describe("factory:set-fee", function () {
+    it("Should set the deposit fee", async function () {
+      const { factory, factoryAddress } = await loadFixture(deployFactoryTasksFixture);
+
+      await hre.run("factory:set-fee", { factory: factoryAddress, fee: 250n });
+
+      expect(await factory.getDepositFee()).to.equal(250n);
+    });
+
+    it("Should reject fees not lower than MAX_FEE", async function () {
+      const { factoryAddress } = await loadFixture(deployFactoryTasksFixture);
+
+      await expect(hre.run("factory:set-fee", { factory: factoryAddress, fee: 2000n })).to.be.rejectedWith("MAX_FEE");
+    });
+  });
+
+  describe("factory:sweep-fees", function () {
+    async function deployAccruedFeesFixture() {
+      const fixture = await deployFactoryTasksFixture();
+      const { factory, usdtTokenTest } = fixture;
+
+      await factory.deployWrappedToken(usdtTokenTest.target);
+      const wrapper = await ethers.getContractAt("WrapperERC20", await factory.wrapperOf(usdtTokenTest.target));
+      await usdtTokenTest.approve(wrapper.target, ethers.parseEther("100"));
+      await wrapper["deposit(uint256)"](ethers.parseEther("100"));
+
+      return { ...fixture, wrapper };
+    }
+
+    it("Should sweep every wrapper by default", async function () {
+      const { factoryAddress, feeReceiver, usdtTokenTest, wrapper } = await loadFixture(deployAccruedFeesFixture);
+
+      await hre.run("factory:sweep-fees", { factory: factoryAddress });
+
+      expect(await usdtTokenTest.balanceOf(feeReceiver.address)).to.equal(ethers.parseEther("1"));
+      expect(await wrapper.accruedFees()).to.equal(0);
+    });
+
+    it("Should sweep only the given wrappers", async function () {
+      const { factory, factoryAddress, wrapper } = await loadFixture(deployAccruedFeesFixture);
+
+      const call = await hre.run("factory:sweep-fees", { factory: factoryAddress, wrappers: await wrapper.getAddress(), dryRun: true });
+
+      expect(call.data).to.equal(factory.interface.encodeFunctionData("sweepFees", [[await wrapper.getAddress()]]));
+    });
+  });
+
+  describe("timelock", function () {
+    async function deployTimelockedFixture() {
+      const fixture = await deployFactoryTasksFixture();
+      await fixture.factory.scheduleMinDelay(3600n);
+      await fixture.factory.executeChange(4);
+      return fixture;
+    }
+
+    it("Should schedule the deposit fee instead of setting it", async function () {
+      const { factory, factoryAddress } = await loadFixture(deployTimelockedFixture);
+
+      await hre.run("factory:set-fee", { factory: factoryAddress, fee: 250n });
+
+      expect(await factory.getDepositFee()).to.equal(100n);
+      const [pending] = await hre.run("factory:pending", { factory: factoryAddress });
+      expect(pending).to.deep.include({ change: "DepositFee", value: ethers.toBeHex(250n, 32) });
+    });
+
+    it("Should execute a scheduled change", async function () {
+      const { factory, factoryAddress } = await loadFixture(deployTimelockedFixture);
+
+      await hre.run("factory:set-fee", { factory: factoryAddress, fee: 250n });
+      await time.increase(3600n);
+      await hre.run("factory:execute", { factory: factoryAddress, change: "depositfee" });
+
+      expect(await factory.getDepositFee()).to.equal(250n);
+      expect(await hre.run("factory:pending", { factory: factoryAddress })).to.deep.equal([]);
+    });
+
+    it("Should cancel a scheduled change", async function () {
+      const { factory, factoryAddress, otherAccount } = await loadFixture(deployTimelockedFixture);
+
+      await hre.run("factory:set-receiver", { factory: factoryAddress, receiver: otherAccount.address });
+      await hre.run("factory:cancel", { factory: factoryAddress, change: "FeeReceiver" });
+
+      await expect(hre.run("factory:execute", { factory: factoryAddress, change: "FeeReceiver" })).to.be.rejectedWith("No FeeReceiver change");
+      expect(await factory.getFeeReceiver()).to.not.equal(otherAccount.address);
+    });
+
+    it("Should reject unknown changes", async function () {
+      const { factoryAddress } = await loadFixture(deployTimelockedFixture);
+
+      await expect(hre.run("factory:execute", { factory: factoryAddress, change: "Roles" })).to.be.rejectedWith("Invalid change");
+    });
+  });
+
+  describe("factory:set-receiver", function () {
+    it("Should set the fee receiver", async function () {
+      const { factory, factoryAddress, otherAccount } = await loadFixture(deployFactoryTasksFixture);
+
+      await hre.run("factory:set-receiver", { factory: factoryAddress, receiver: otherAccount.address });
+
+      expect(await factory.getFeeReceiver()).to.equal(otherAccount.address);
+    });
+
+    it("Should reject the zero address", async function () {
+      const { factoryAddress } = await loadFixture(deployFactoryTasksFixture);
+
+      await expect(
+        hre.run("factory:set-receiver", { factory: factoryAddress, receiver: ethers.ZeroAddress })
+      ).to.be.rejectedWith("zero address");
+    });
+  });
+
+  describe("factory:set-implementation", function () {
+    it("Should reject addresses without code", async function () {
+      const { factoryAddress, otherAccount } = await loadFixture(deployFactoryTasksFixture);
+
+      await expect(
+        hre.run("factory:set-implementation", { factory: factoryAddress, implementation: otherAccount.address })
+      ).to.be.rejectedWith("no code");
+    });
+  });
+
+  describe("factory:wrap", function () {
+    it("Should deploy the wrapper of a token", async function () {
+      const { factory, factoryAddress, usdtTokenTest } = await loadFixture(deployFactoryTasksFixture);
+
+      await hre.run("factory:wrap", { factory: factoryAddress, token: await usdtTokenTest.getAddress() });
+
+      expect(await factory.wrapperOf(usdtTokenTest.target)).to.not.equal(ethers.ZeroAddress);
+    });
+
+    it("Should reject tokens that are already wrapped", async function () {
+      const { factory, factoryAddress, usdtTokenTest } = await loadFixture(deployFactoryTasksFixture);
+
+      await factory.deployWrappedToken(usdtTokenTest.target);
+
+      await expect(
+        hre.run("factory:wrap", { factory: factoryAddress, token: await usdtTokenTest.getAddress() })
+      ).to.be.rejectedWith("already wrapped");
+    });
+  });
+});
@@ -0,0 +1,431 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import { deployWrapperFactory } from "./helpers/fixtures";
+
+// Mirrors `WrapperFactory.Change`.
+const Change = {
+  DepositFee: 0,
+  FeeReceiver: 1,
+  Implementation: 2,
+  Upgrade: 3,
+  MinDelay: 4,
+  WithdrawalFee: 5,
+  DepositFeeOverride: 6,
+  WithdrawalFeeOverride: 7,
+};
+
+const DELAY = 2n * 24n * 60n * 60n;
+
+describe("WrapperFactory timelock", function () {
+  async function deployTimelockFixture() {
+    const [admin, operator, treasurer, guardian, user, feeReceiver, otherAccount] = await ethers.getSigners();
+
+    const { factory, wrapperImplementation } = await deployWrapperFactory({ admin, operator, treasurer, feeReceiver });
+    await factory.connect(admin).grantRole(await factory.GUARDIAN_ROLE(), guardian.address);
+
+    // Without a delay the change is ready right away.
+    await factory.connect(admin).scheduleMinDelay(DELAY);
+    await factory.connect(admin).executeChange(Change.MinDelay);
+
+    return { factory, wrapperImplementation, admin, operator, treasurer, guardian, user, feeReceiver, otherAccount };
+  }
+
+  async function deployTimelockWithWrapperFixture() {
+    const fixture = await deployTimelockFixture();
+
+    const BaseToken = await ethers.getContractFactory("BaseToken");
+    const usdtTokenTest = await BaseToken.deploy("USDT", "USDT");
+    await fixture.factory.connect(fixture.user).deployWrappedToken(usdtTokenTest.target);
+    const wrapper = await fixture.factory.wrapperOf(usdtTokenTest.target);
+
+    return { ...fixture, usdtTokenTest, wrapper };
+  }
+
+  describe("Configuration", function () {
+    it("Should apply the minimum delay", async function () {
+      const { factory } = await loadFixture(deployTimelockFixture);
+
+      expect(await factory.getMinDelay()).to.equal(DELAY);
+    });
+
+    it("Should disable the direct setters", async function () {
+      const { factory, admin, operator, treasurer, otherAccount } = await loadFixture(deployTimelockFixture);
+
+      await expect(factory.connect(operator).setDepositFee(150n)).to.be.revertedWithCustomError(factory, "TimelockActive");
+      await expect(factory.connect(treasurer).setFeeReceiver(otherAccount.address))
+        .to.be.revertedWithCustomError(factory, "TimelockActive");
+      await expect(factory.connect(admin).setImplementation(otherAccount.address))
+        .to.be.revertedWithCustomError(factory, "TimelockActive");
+    });
+
+    it("Should disable the direct withdrawal fee and override setters", async function () {
+      const { factory, operator, wrapper } = await loadFixture(deployTimelockWithWrapperFixture);
+
+      await expect(factory.connect(operator).setWithdrawalFee(50n)).to.be.revertedWithCustomError(factory, "TimelockActive");
+      await expect(factory.connect(operator).setDepositFeeOverride(wrapper, 0n))
+        .to.be.revertedWithCustomError(factory, "TimelockActive");
+      await expect(factory.connect(operator).clearDepositFeeOverride(wrapper))
+        .to.be.revertedWithCustomError(factory, "TimelockActive");
+      await expect(factory.connect(operator).setWithdrawalFeeOverride(wrapper, 0n))
+        .to.be.revertedWithCustomError(factory, "TimelockActive");
+      await expect(factory.connect(operator).clearWithdrawalFeeOverride(wrapper))
+        .to.be.revertedWithCustomError(factory, "TimelockActive");
+    });
+
+    it("Should reject delays above MAX_DELAY", async function () {
+      const { factory, admin } = await loadFixture(deployTimelockFixture);
+
+      const maxDelay = await factory.MAX_DELAY();
+      await expect(factory.connect(admin).scheduleMinDelay(maxDelay + 1n))
+        .to.be.revertedWithCustomError(factory, "DelayTooLong")
+        .withArgs(maxDelay);
+    });
+
+    it("Should wait the current delay before lowering it", async function () {
+      const { factory, admin } = await loadFixture(deployTimelockFixture);
+
+      await factory.connect(admin).scheduleMinDelay(0n);
+      await expect(factory.connect(admin).executeChange(Change.MinDelay))
+        .to.be.revertedWithCustomError(factory, "ChangeNotReady");
+
+      await time.increase(DELAY);
+      await factory.connect(admin).executeChange(Change.MinDelay);
+
+      expect(await factory.getMinDelay()).to.equal(0);
+      await factory.connect(admin).setImplementation(admin.address);
+    });
+  });
+
+  describe("Deposit fee", function () {
+    it("Should expose the scheduled fee and emit ChangeScheduled", async function () {
+      const { factory, operator } = await loadFixture(deployTimelockFixture);
+
+      const tx = factory.connect(operator).scheduleDepositFee(150n);
+      const readyAt = BigInt(await time.latest()) + 1n + DELAY;
+
+      await expect(tx)
+        .to.emit(factory, "ChangeScheduled")
+        .withArgs(Change.DepositFee, ethers.toBeHex(150n, 32), readyAt);
+
+      expect(await factory.getPendingChange(Change.DepositFee)).to.deep.equal([ethers.toBeHex(150n, 32), readyAt]);
+      expect(await factory.getDepositFee()).to.equal(100n);
+    });
+
+    it("Should only apply the fee once the delay has passed", async function () {
+      const { factory, operator } = await loadFixture(deployTimelockFixture);
+
+      await factory.connect(operator).scheduleDepositFee(150n);
+      const [, readyAt] = await factory.getPendingChange(Change.DepositFee);
+
+      await time.increase(DELAY / 2n);
+      await expect(factory.connect(operator).executeChange(Change.DepositFee))
+        .to.be.revertedWithCustomError(factory, "ChangeNotReady")
+        .withArgs(Change.DepositFee, readyAt);
+
+      await time.setNextBlockTimestamp(readyAt - 1n);
+      await expect(factory.connect(operator).executeChange(Change.DepositFee))
+        .to.be.revertedWithCustomError(factory, "ChangeNotReady");
+
+      await time.setNextBlockTimestamp(readyAt);
+      await expect(factory.connect(operator).executeChange(Change.DepositFee))
+        .to.emit(factory, "ChangeExecuted")
+        .withArgs(Change.DepositFee, ethers.toBeHex(150n, 32))
+        .and.to.emit(factory, "DepositFeeChanged")
+        .withArgs(150n);
+
+      expect(await factory.getDepositFee()).to.equal(150n);
+      expect(await factory.getPendingChange(Change.DepositFee)).to.deep.equal([ethers.ZeroHash, 0n]);
+    });
+
+    it("Should keep charging the current fee to deposits inside the window", async function () {
+      const { factory, operator, user } = await loadFixture(deployTimelockFixture);
+
+      const BaseToken = await ethers.getContractFactory("BaseToken");
+      const usdtTokenTest = await BaseToken.deploy("USDT", "USDT");
+      await usdtTokenTest.transfer(user.address, ethers.parseEther("1000"));
+      await factory.connect(user).deployWrappedToken(usdtTokenTest.target);
+      const wrapper = await ethers.getContractAt("WrapperERC20", await factory.wrapperOf(usdtTokenTest.target));
+      await usdtTokenTest.connect(user).approve(wrapper.target, ethers.MaxUint256);
+
+      await factory.connect(operator).scheduleDepositFee(1999n);
+      await time.increase(DELAY - 10n);
+
+      const amount = ethers.parseEther("100");
+      await wrapper.connect(user)["deposit(uint256)"](amount);
+
+      expect(await wrapper.balanceOf(user.address)).to.equal(amount - amount / 100n);
+    });
+
+    it("Should require cancelling a pending change before rescheduling it", async function () {
+      const { factory, operator } = await loadFixture(deployTimelockFixture);
+
+      await factory.connect(operator).scheduleDepositFee(150n);
+      await time.increase(DELAY - 10n);
+      await expect(factory.connect(operator).scheduleDepositFee(200n))
+        .to.be.revertedWithCustomError(factory, "ChangeAlreadyScheduled")
+        .withArgs(Change.DepositFee, ethers.toBeHex(150n, 32));
+
+      await expect(factory.connect(operator).cancelChange(Change.DepositFee)).to.emit(factory, "ChangeCancelled");
+      await factory.connect(operator).scheduleDepositFee(200n);
+      await time.increase(10n);
+
+      await expect(factory.connect(operator).executeChange(Change.DepositFee))
+        .to.be.revertedWithCustomError(factory, "ChangeNotReady");
+
+      await time.increase(DELAY);
+      await factory.connect(operator).executeChange(Change.DepositFee);
+
+      expect(await factory.getDepositFee()).to.equal(200n);
+    });
+
+    it("Should validate the fee when scheduling", async function () {
+      const { factory, operator } = await loadFixture(deployTimelockFixture);
+
+      await expect(factory.connect(operator).scheduleDepositFee(2000n))
+        .to.be.revertedWithCustomError(factory, "FeeTooHigh");
+    });
+
+    it("Should restrict scheduling and execution to OPERATOR_ROLE", async function () {
+      const { factory, operator, otherAccount } = await loadFixture(deployTimelockFixture);
+
+      await expect(factory.connect(otherAccount).scheduleDepositFee(150n))
+        .to.be.revertedWithCustomError(factory, "AccessControlUnauthorizedAccount");
+
+      await factory.connect(operator).scheduleDepositFee(150n);
+      await time.increase(DELAY);
+
+      await expect(factory.connect(otherAccount).executeChange(Change.DepositFee))
+        .to.be.revertedWithCustomError(factory, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Withdrawal fee and overrides", function () {
+    it("Should only apply the withdrawal fee once the delay has passed", async function () {
+      const { factory, operator } = await loadFixture(deployTimelockFixture);
+
+      await factory.connect(operator).scheduleWithdrawalFee(50n);
+      await expect(factory.connect(operator).executeChange(Change.WithdrawalFee))
+        .to.be.revertedWithCustomError(factory, "ChangeNotReady");
+
+      await time.increase(DELAY);
+      await expect(factory.connect(operator).executeChange(Change.WithdrawalFee))
+        .to.emit(factory, "WithdrawalFeeChanged")
+        .withArgs(50n);
+
+      expect(await factory.getWithdrawalFee()).to.equal(50n);
+    });
+
+    it("Should set and clear a deposit fee override after the delay", async function () {
+      const { factory, operator, wrapper } = await loadFixture(deployTimelockWithWrapperFixture);
+
+      await factory.connect(operator).scheduleDepositFeeOverride(wrapper, true, 0n);
+      await expect(factory.connect(operator).executeChange(Change.DepositFeeOverride))
+        .to.be.revertedWithCustomError(factory, "ChangeNotReady");
+      expect(await factory.getDepositFeeFor(wrapper)).to.equal(100n);
+
+      await time.increase(DELAY);
+      await expect(factory.connect(operator).executeChange(Change.DepositFeeOverride))
+        .to.emit(factory, "DepositFeeOverrideChanged")
+        .withArgs(wrapper, true, 0n);
+      expect(await factory.getDepositFeeFor(wrapper)).to.equal(0n);
+
+      await factory.connect(operator).scheduleDepositFeeOverride(wrapper, false, 0n);
+      await time.increase(DELAY);
+      await expect(factory.connect(operator).executeChange(Change.DepositFeeOverride))
+        .to.emit(factory, "DepositFeeOverrideChanged")
+        .withArgs(wrapper, false, 0n);
+      expect(await factory.getDepositFeeFor(wrapper)).to.equal(100n);
+    });
+
+    it("Should set a withdrawal fee override after the delay", async function () {
+      const { factory, operator, wrapper } = await loadFixture(deployTimelockWithWrapperFixture);
+
+      await factory.connect(operator).scheduleWithdrawalFeeOverride(wrapper, true, 25n);
+      await time.increase(DELAY);
+      await expect(factory.connect(operator).executeChange(Change.WithdrawalFeeOverride))
+        .to.emit(factory, "WithdrawalFeeOverrideChanged")
+        .withArgs(wrapper, true, 25n);
+
+      expect(await factory.getWithdrawalFeeFor(wrapper)).to.equal(25n);
+      expect(await factory.getWithdrawalFee()).to.equal(0n);
+    });
+
+    it("Should not replace the pending override of another wrapper", async function () {
+      const { factory, operator, user, wrapper } = await loadFixture(deployTimelockWithWrapperFixture);
+
+      const BaseToken = await ethers.getContractFactory("BaseToken");
+      const daiTokenTest = await BaseToken.deploy("DAI", "DAI");
+      await factory.connect(user).deployWrappedToken(daiTokenTest.target);
+      const otherWrapper = await factory.wrapperOf(daiTokenTest.target);
+
+      await factory.connect(operator).scheduleDepositFeeOverride(wrapper, true, 0n);
+      const [pending] = await factory.getPendingChange(Change.DepositFeeOverride);
+
+      await expect(factory.connect(operator).scheduleDepositFeeOverride(otherWrapper, true, 0n))
+        .to.be.revertedWithCustomError(factory, "ChangeAlreadyScheduled")
+        .withArgs(Change.DepositFeeOverride, pending);
+
+      await time.increase(DELAY);
+      await factory.connect(operator).executeChange(Change.DepositFeeOverride);
+      expect(await factory.getDepositFeeFor(wrapper)).to.equal(0n);
+    });
+
+    it("Should validate the overrides when scheduling", async function () {
+      const { factory, operator, wrapper, otherAccount } = await loadFixture(deployTimelockWithWrapperFixture);
+
+      await expect(factory.connect(operator).scheduleDepositFeeOverride(otherAccount.address, true, 0n))
+        .to.be.revertedWithCustomError(factory, "NotWrappedToken")
+        .withArgs(otherAccount.address);
+      await expect(factory.connect(operator).scheduleWithdrawalFeeOverride(wrapper, true, 2000n))
+        .to.be.revertedWithCustomError(factory, "FeeTooHigh");
+      await expect(factory.connect(operator).scheduleWithdrawalFee(2000n))
+        .to.be.revertedWithCustomError(factory, "FeeTooHigh");
+    });
+
+    it("Should restrict scheduling and execution to OPERATOR_ROLE", async function () {
+      const { factory, operator, wrapper, otherAccount } = await loadFixture(deployTimelockWithWrapperFixture);
+
+      await expect(factory.connect(otherAccount).scheduleWithdrawalFee(50n))
+        .to.be.revertedWithCustomError(factory, "AccessControlUnauthorizedAccount");
+      await expect(factory.connect(otherAccount).scheduleDepositFeeOverride(wrapper, true, 0n))
+        .to.be.revertedWithCustomError(factory, "AccessControlUnauthorizedAccount");
+
+      await factory.connect(operator).scheduleWithdrawalFeeOverride(wrapper, true, 0n);
+      await time.increase(DELAY);
+
+      await expect(factory.connect(otherAccount).executeChange(Change.WithdrawalFeeOverride))
+        .to.be.revertedWithCustomError(factory, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Cancellation", function () {
+    it("Should let the scheduling role and the guardian cancel", async function () {
+      const { factory, operator, guardian } = await loadFixture(deployTimelockFixture);
+
+      await factory.connect(operator).scheduleDepositFee(150n);
+      await expect(factory.connect(operator).cancelChange(Change.DepositFee))
+        .to.emit(factory, "ChangeCancelled")
+        .withArgs(Change.DepositFee, ethers.toBeHex(150n, 32));
+
+      await factory.connect(operator).scheduleDepositFee(150n);
+      await factory.connect(guardian).cancelChange(Change.DepositFee);
+
+      await time.increase(DELAY);
+      await expect(factory.connect(operator).executeChange(Change.DepositFee))
+        .to.be.revertedWithCustomError(factory, "NoPendingChange")
+        .withArgs(Change.DepositFee);
+      expect(await factory.getDepositFee()).to.equal(100n);
+    });
+
+    it("Should not let other accounts cancel", async function () {
+      const { factory, operator, treasurer } = await loadFixture(deployTimelockFixture);
+
+      await factory.connect(operator).scheduleDepositFee(150n);
+
+      await expect(factory.connect(treasurer).cancelChange(Change.DepositFee))
+        .to.be.revertedWithCustomError(factory, "AccessControlUnauthorizedAccount")
+        .withArgs(treasurer.address, await factory.OPERATOR_ROLE());
+    });
+
+    it("Should revert when nothing is scheduled", async function () {
+      const { factory, guardian } = await loadFixture(deployTimelockFixture);
+
+      await expect(factory.connect(guardian).cancelChange(Change.FeeReceiver))
+        .to.be.revertedWithCustomError(factory, "NoPendingChange");
+    });
+  });
+
+  describe("Fee receiver and implementation", function () {
+    it("Should change the fee receiver after the delay", async function () {
+      const { factory, treasurer, otherAccount } = await loadFixture(deployTimelockFixture);
+
+      await expect(factory.connect(treasurer).scheduleFeeReceiver(ethers.ZeroAddress))
+        .to.be.revertedWithCustomError(factory, "ZeroAddress");
+
+      await factory.connect(treasurer).scheduleFeeReceiver(otherAccount.address);
+      await time.increase(DELAY);
+
+      await expect(factory.connect(treasurer).executeChange(Change.FeeReceiver))
+        .to.emit(factory, "FeeReceiverChanged")
+        .withArgs(otherAccount.address);
+      expect(await factory.getFeeReceiver()).to.equal(otherAccount.address);
+    });
+
+    it("Should change the wrapper implementation after the delay", async function () {
+      const { factory, admin } = await loadFixture(deployTimelockFixture);
+
+      const MockWrapperERC20V2 = await ethers.getContractFactory("MockWrapperERC20V2");
+      const wrapperImplementationV2 = await MockWrapperERC20V2.deploy();
+
+      await factory.connect(admin).scheduleImplementation(wrapperImplementationV2.target);
+      const [value] = await factory.getPendingChange(Change.Implementation);
+      expect(ethers.getAddress(ethers.dataSlice(value, 12))).to.equal(wrapperImplementationV2.target);
+
+      await time.increase(DELAY);
+      await factory.connect(admin).executeChange(Change.Implementation);
+
+      expect(await factory.wrapperImplementation()).to.equal(wrapperImplementationV2.target);
+    });
+  });
+
+  describe("Factory upgrades", function () {
+    it("Should reject upgrades that were not scheduled", async function () {
+      const { factory } = await loadFixture(deployTimelockFixture);
+
+      const MockWrapperFactoryV2 = await ethers.getContractFactory("MockWrapperFactoryV2");
+
+      await expect(upgrades.upgradeProxy(factory.target, MockWrapperFactoryV2, { kind: "uups" }))
+        .to.be.revertedWithCustomError(factory, "UpgradeNotScheduled");
+    });
+
+    it("Should upgrade through upgradeToAndCall after the delay", async function () {
+      const { factory, admin } = await loadFixture(deployTimelockFixture);
+
+      const MockWrapperFactoryV2 = await ethers.getContractFactory("MockWrapperFactoryV2");
+      const implementation = (await upgrades.prepareUpgrade(factory.target, MockWrapperFactoryV2, { kind: "uups" })) as string;
+
+      await factory.connect(admin).scheduleUpgrade(implementation);
+      await expect(upgrades.upgradeProxy(factory.target, MockWrapperFactoryV2, { kind: "uups" }))
+        .to.be.revertedWithCustomError(factory, "ChangeNotReady")
+        .withArgs(Change.Upgrade, (await factory.getPendingChange(Change.Upgrade)).readyAt);
+
+      await time.increase(DELAY);
+      const factoryV2 = await upgrades.upgradeProxy(factory.target, MockWrapperFactoryV2, { kind: "uups" });
+
+      expect(await upgrades.erc1967.getImplementationAddress(await factory.getAddress())).to.equal(implementation);
+      await factoryV2.setVersion("2.0.0");
+      expect(await factoryV2.testProxy()).to.equal("2.0.0");
+      expect(await factory.getMinDelay()).to.equal(DELAY);
+    });
+
+    it("Should upgrade through executeChange after the delay", async function () {
+      const { factory, admin } = await loadFixture(deployTimelockFixture);
+
+      const MockWrapperFactoryV2 = await ethers.getContractFactory("MockWrapperFactoryV2");
+      const implementation = (await upgrades.prepareUpgrade(factory.target, MockWrapperFactoryV2, { kind: "uups" })) as string;
+
+      await factory.connect(admin).scheduleUpgrade(implementation);
+      await time.increase(DELAY);
+
+      await expect(factory.connect(admin).executeChange(Change.Upgrade))
+        .to.emit(factory, "ChangeExecuted")
+        .withArgs(Change.Upgrade, ethers.zeroPadValue(implementation, 32));
+
+      expect(await upgrades.erc1967.getImplementationAddress(await factory.getAddress())).to.equal(implementation);
+      await expect(factory.connect(admin).executeChange(Change.Upgrade))
+        .to.be.revertedWithCustomError(factory, "NoPendingChange");
+    });
+
+    it("Should only upgrade to the scheduled implementation", async function () {
+      const { factory, admin, wrapperImplementation } = await loadFixture(deployTimelockFixture);
+
+      const MockWrapperFactoryV2 = await ethers.getContractFactory("MockWrapperFactoryV2");
+      await factory.connect(admin).scheduleUpgrade(wrapperImplementation.target);
+      await time.increase(DELAY);
+
+      await expect(upgrades.upgradeProxy(factory.target, MockWrapperFactoryV2, { kind: "uups" }))
+        .to.be.revertedWithCustomError(factory, "UpgradeNotScheduled");
+    });
+  });
+});
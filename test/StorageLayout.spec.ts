@@ -0,0 +1,381 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import hre, { ethers, upgrades } from "hardhat";
+import { CompilerOutputContract } from "hardhat/types";
+import { CHANGE_NAMES, ROLE_NAMES } from "../tasks/factory";
+import { deployWrapperFactory } from "./helpers/fixtures";
+
+// Committed layouts of the contract-owned slots (OpenZeppelin parents use ERC-7201 namespaces).
+// After an intended layout change, regenerate them with UPDATE_STORAGE_LAYOUTS=1.
+const LAYOUTS_DIR = join(__dirname, "layouts");
+const UPDATE_LAYOUTS = process.env.UPDATE_STORAGE_LAYOUTS === "1";
+
+interface StorageEntry {
+  label: string;
+  slot: number;
+  offset: number;
+  type: string;
+  bytes: number;
+}
+
+// The `storageLayout` output the upgrades plugin asks solc for, Hardhat's types leave it out.
+interface SolcStorageLayout {
+  storage: { label: string; slot: string; offset: number; type: string }[];
+  types: Record<string, { numberOfBytes: string }>;
+}
+
+async function storageLayout(source: string, name: string): Promise<StorageEntry[]> {
+  const buildInfo = await hre.artifacts.getBuildInfo(`${source}:${name}`);
+  if (!buildInfo) throw new Error(`No build info for ${source}:${name}`);
+
+  const output = buildInfo.output.contracts[source][name] as CompilerOutputContract & { storageLayout: SolcStorageLayout };
+  const { storage, types } = output.storageLayout;
+
+  return storage.map((entry) => ({
+    label: entry.label,
+    slot: Number(entry.slot),
+    offset: entry.offset,
+    // Drop the AST ids solc appends to struct, enum and contract types.
+    type: entry.type.replace(/(t_(?:struct|enum|contract)\([^)]*\))\d+/g, "$1"),
+    bytes: Number(types[entry.type].numberOfBytes),
+  }));
+}
+
+/**
+ * Lists the changes from `previous` to `current` that would corrupt an upgraded
+ * proxy: moved, retyped or removed variables, variables inserted before the
+ * gap, and a gap that was not shrunk by the slots added.
+ */
+function layoutProblems(previous: StorageEntry[], current: StorageEntry[]): string[] {
+  const problems: string[] = [];
+  const end = (entry: StorageEntry) => entry.slot + Math.ceil(entry.bytes / 32);
+
+  for (const entry of previous.filter((entry) => entry.label !== "__gap")) {
+    const match = current.find((candidate) => candidate.label === entry.label);
+    if (!match) problems.push(`${entry.label} was removed`);
+    else if (match.slot !== entry.slot || match.offset !== entry.offset) {
+      problems.push(`${entry.label} moved from ${entry.slot}:${entry.offset} to ${match.slot}:${match.offset}`);
+    } else if (match.type !== entry.type) problems.push(`${entry.label} changed type from ${entry.type} to ${match.type}`);
+  }
+
+  const previousGap = previous.find((entry) => entry.label === "__gap");
+  const currentGap = current.find((entry) => entry.label === "__gap");
+  if (previousGap) {
+    if (!currentGap) problems.push("__gap was removed");
+    else if (end(currentGap) !== end(previousGap)) problems.push(`__gap ends at slot ${end(currentGap)} instead of ${end(previousGap)}`);
+
+    for (const entry of current.filter((entry) => entry.label !== "__gap" && !previous.some((old) => old.label === entry.label))) {
+      if (entry.slot < previousGap.slot) problems.push(`${entry.label} was inserted at slot ${entry.slot}, before the gap`);
+    }
+  }
+
+  return problems;
+}
+
+describe("Storage layout", function () {
+  for (const [source, name] of [
+    ["contracts/WrapperFactory.sol", "WrapperFactory"],
+    ["contracts/WrapperERC20.sol", "WrapperERC20"],
+  ]) {
+    describe(name, function () {
+      const snapshotPath = join(LAYOUTS_DIR, `${name}.json`);
+
+      it("Should match the committed layout snapshot", async function () {
+        const layout = await storageLayout(source, name);
+
+        if (UPDATE_LAYOUTS) {
+          writeFileSync(snapshotPath, `${JSON.stringify(layout, null, 2)}\n`);
+          return;
+        }
+
+        expect(existsSync(snapshotPath), `missing ${snapshotPath}, run with UPDATE_STORAGE_LAYOUTS=1`).to.be.true;
+        expect(layout).to.deep.equal(JSON.parse(readFileSync(snapshotPath, "utf8")));
+      });
+
+      it("Should only append to the committed layout", async function () {
+        if (!existsSync(snapshotPath)) this.skip();
+
+        const snapshot: StorageEntry[] = JSON.parse(readFileSync(snapshotPath, "utf8"));
+        expect(layoutProblems(snapshot, await storageLayout(source, name))).to.deep.equal([]);
+      });
+    });
+  }
+
+  describe("layoutProblems", function () {
+    const previous: StorageEntry[] = [
+      { label: "feeReceiver", slot: 0, offset: 0, type: "t_address", bytes: 20 },
+      { label: "depositFee", slot: 1, offset: 0, type: "t_uint256", bytes: 32 },
+      { label: "__gap", slot: 2, offset: 0, type: "t_array(t_uint256)48_storage", bytes: 1536 },
+    ];
+
+    it("Should accept variables appended into the gap", function () {
+      expect(layoutProblems(previous, [
+        ...previous.slice(0, 2),
+        { label: "withdrawalFee", slot: 2, offset: 0, type: "t_uint256", bytes: 32 },
+        { label: "__gap", slot: 3, offset: 0, type: "t_array(t_uint256)47_storage", bytes: 1504 },
+      ])).to.deep.equal([]);
+    });
+
+    it("Should reject a gap that was not shrunk", function () {
+      expect(layoutProblems(previous, [
+        ...previous.slice(0, 2),
+        { label: "withdrawalFee", slot: 2, offset: 0, type: "t_uint256", bytes: 32 },
+        { label: "__gap", slot: 3, offset: 0, type: "t_array(t_uint256)48_storage", bytes: 1536 },
+      ])).to.deep.equal(["__gap ends at slot 51 instead of 50"]);
+    });
+
+    it("Should reject reordered, retyped and removed variables", function () {
+      expect(layoutProblems(previous, [
+        { label: "depositFee", slot: 0, offset: 0, type: "t_uint128", bytes: 16 },
+        previous[2],
+      ])).to.deep.equal(["feeReceiver was removed", "depositFee moved from 1:0 to 0:0"]);
+
+      expect(layoutProblems(previous, [
+        previous[0],
+        { label: "depositFee", slot: 1, offset: 0, type: "t_uint128", bytes: 16 },
+        previous[2],
+      ])).to.deep.equal(["depositFee changed type from t_uint256 to t_uint128"]);
+    });
+
+    it("Should reject variables inserted before the gap", function () {
+      expect(layoutProblems(previous, [
+        { label: "paused", slot: 0, offset: 0, type: "t_bool", bytes: 1 },
+        { label: "feeReceiver", slot: 0, offset: 1, type: "t_address", bytes: 20 },
+        { label: "depositFee", slot: 1, offset: 0, type: "t_uint256", bytes: 32 },
+        previous[2],
+      ])).to.deep.equal(["feeReceiver moved from 0:0 to 0:1", "paused was inserted at slot 0, before the gap"]);
+    });
+  });
+
+  describe("upgrade validation", function () {
+    for (const [reference, next] of [
+      ["MockWrapperFactoryV1", "WrapperFactory"],
+      ["WrapperFactory", "MockWrapperFactoryV2"],
+      ["MockWrapperERC20V1", "WrapperERC20"],
+      ["WrapperERC20", "MockWrapperERC20V2"],
+    ]) {
+      it(`Should validate ${reference} -> ${next}`, async function () {
+        await upgrades.validateUpgrade(await ethers.getContractFactory(reference), await ethers.getContractFactory(next), { kind: "uups" });
+      });
+    }
+
+    it("Should reject a version that drops state", async function () {
+      await expect(
+        upgrades.validateUpgrade(await ethers.getContractFactory("WrapperFactory"), await ethers.getContractFactory("MockWrapperFactoryV1"), { kind: "uups" })
+      ).to.be.rejectedWith("New storage layout is incompatible");
+    });
+  });
+});
+
+describe("Upgrade state preservation", function () {
+  const DELAY = 3600n;
+
+  async function deployPopulatedFixture() {
+    const [admin, operator, treasurer, guardian, feeReceiver, secondOperator, ...users] = await ethers.getSigners();
+    const accounts = [admin, operator, treasurer, guardian, feeReceiver, secondOperator, ...users.slice(0, 3)];
+
+    const MockWrapperERC20V2 = await ethers.getContractFactory("MockWrapperERC20V2");
+    const wrapperImplementationV2 = await MockWrapperERC20V2.deploy();
+    await wrapperImplementationV2.waitForDeployment();
+
+    const { factory } = await deployWrapperFactory({ admin, operator, treasurer, feeReceiver }, 150n);
+
+    // Roles
+    await factory.grantRole(await factory.GUARDIAN_ROLE(), guardian.address);
+    await factory.grantRole(await factory.OPERATOR_ROLE(), secondOperator.address);
+
+    // Wrappers with balances, allowances and accrued fees
+    const BaseToken = await ethers.getContractFactory("BaseToken");
+    const BaseTokenWithDecimals = await ethers.getContractFactory("BaseTokenWithDecimals");
+    const tokens = [
+      await BaseToken.deploy("USDT", "USDT"),
+      await BaseTokenWithDecimals.deploy("USD Coin", "USDC", 6),
+      await BaseToken.deploy("DAI", "DAI"),
+    ];
+    await factory.deployWrappedToken(tokens[0].target);
+    await factory.connect(secondOperator).deployWrappedTokenWithMetadata(tokens[1].target, "Wrapped USD Coin", "wUSDC");
+    await factory.deployWrappedToken(tokens[2].target);
+    const wrappers = await Promise.all(tokens.map(async (token) => ethers.getContractAt("WrapperERC20", await factory.wrapperOf(token.target))));
+
+    await factory.connect(operator).setWithdrawalFee(30n);
+    await factory.connect(operator).setDepositFeeOverride(wrappers[1].target, 0n);
+    await factory.connect(operator).setWithdrawalFeeOverride(wrappers[2].target, 75n);
+
+    for (const [index, token] of tokens.entries()) {
+      const unit = 10n ** (await token.decimals());
+      for (const [position, user] of users.slice(0, 3).entries()) {
+        const amount = unit * BigInt(100 * (position + 1) + index);
+        await token.transfer(user.address, amount);
+        await token.connect(user).approve(wrappers[index].target, amount);
+        await wrappers[index].connect(user)["deposit(uint256)"](amount);
+      }
+      await wrappers[index].connect(users[0])["withdraw(uint256)"](unit * 10n);
+      await wrappers[index].connect(users[1]).approve(users[2].address, unit);
+    }
+    await factory.connect(treasurer).sweepFees([wrappers[0].target]);
+
+    // Pauses, creation rules and the timelock
+    await factory.connect(guardian).setWrapperPause(wrappers[2].target, true, false);
+    await factory.setCreationMode(2);
+    await factory.connect(operator).setTokenAllowed(users[3].address, true);
+    await factory.connect(operator).setTokenDenied(users[4].address, true);
+    await factory.scheduleMinDelay(DELAY);
+    await factory.executeChange(CHANGE_NAMES.indexOf("MinDelay"));
+    await factory.connect(operator).scheduleDepositFee(200n);
+
+    return { factory, tokens, wrappers, accounts, users, treasurer, wrapperImplementationV2 };
+  }
+
+  type PopulatedFixture = Awaited<ReturnType<typeof deployPopulatedFixture>>;
+
+  async function factoryState({ factory, tokens, wrappers, accounts, users }: PopulatedFixture) {
+    const roles = [];
+    for (const name of ROLE_NAMES) {
+      const role = ethers.id(name);
+      roles.push({ name, admin: await factory.getRoleAdmin(role), holders: await Promise.all(accounts.map((account) => factory.hasRole(role, account.address))) });
+    }
+
+    const pendingChanges = [];
+    for (const [index, name] of CHANGE_NAMES.entries()) {
+      // The scheduled upgrade itself is consumed by the upgrade.
+      if (name !== "Upgrade") pendingChanges.push({ name, change: [...(await factory.getPendingChange(index))] });
+    }
+
+    const perWrapper = [];
+    for (const [index, wrapper] of wrappers.entries()) {
+      perWrapper.push({
+        wrapperOf: await factory.wrapperOf(tokens[index].target),
+        underlyingOf: await factory.underlyingOf(wrapper.target),
+        depositFee: await factory.getDepositFeeFor(wrapper.target),
+        withdrawalFee: await factory.getWithdrawalFeeFor(wrapper.target),
+        pause: [...(await factory.getWrapperPause(wrapper.target))],
+        depositPaused: await factory.isDepositPaused(wrapper.target),
+        accruedFees: await factory.getAccruedFees(wrapper.target),
+      });
+    }
+
+    return {
+      roles,
+      pendingChanges,
+      perWrapper,
+      wrapperImplementation: await factory.wrapperImplementation(),
+      feeReceiver: await factory.getFeeReceiver(),
+      depositFee: await factory.getDepositFee(),
+      withdrawalFee: await factory.getWithdrawalFee(),
+      globalPause: [...(await factory.getGlobalPause())],
+      wrappedTokens: [...(await factory["getWrappedTokens()"]())],
+      minDelay: await factory.getMinDelay(),
+      creationMode: await factory.getCreationMode(),
+      allowed: await factory.isTokenAllowed(users[3].address),
+      denied: await factory.isTokenDenied(users[4].address),
+      totalAccruedFees: await factory.getTotalAccruedFees(),
+    };
+  }
+
+  async function wrapperState({ factory, wrappers, users }: PopulatedFixture) {
+    const state = [];
+    for (const wrapper of wrappers) {
+      state.push({
+        name: await wrapper.name(),
+        symbol: await wrapper.symbol(),
+        decimals: await wrapper.decimals(),
+        owner: await wrapper.owner(),
+        factory: await wrapper.factory(),
+        underlyingToken: await wrapper.underlyingToken(),
+        totalSupply: await wrapper.totalSupply(),
+        totalUnderlying: await wrapper.totalUnderlying(),
+        accruedFees: await wrapper.accruedFees(),
+        domainSeparator: await wrapper.DOMAIN_SEPARATOR(),
+        balances: await Promise.all(users.slice(0, 3).map((user) => wrapper.balanceOf(user.address))),
+        allowance: await wrapper.allowance(users[1].address, users[2].address),
+        nonces: await Promise.all(users.slice(0, 3).map((user) => wrapper.nonces(user.address))),
+      });
+    }
+
+    expect(await factory.wrappedTokensCount()).to.equal(wrappers.length);
+    return state;
+  }
+
+  async function upgradeFactory(fixture: PopulatedFixture) {
+    const MockWrapperFactoryV2 = await ethers.getContractFactory("MockWrapperFactoryV2");
+    const implementation = await upgrades.prepareUpgrade(fixture.factory, MockWrapperFactoryV2, { kind: "uups" });
+
+    await fixture.factory.scheduleUpgrade(implementation as string);
+    await time.increase(DELAY);
+    await upgrades.upgradeProxy(fixture.factory, MockWrapperFactoryV2, { kind: "uups" });
+
+    return ethers.getContractAt("MockWrapperFactoryV2", await fixture.factory.getAddress());
+  }
+
+  async function upgradeWrappers(fixture: PopulatedFixture) {
+    const { factory, wrapperImplementationV2 } = fixture;
+
+    await factory.scheduleImplementation(wrapperImplementationV2.target);
+    await time.increase(DELAY);
+    await factory.executeChange(CHANGE_NAMES.indexOf("Implementation"));
+    await factory.upgradeAllWrappers();
+  }
+
+  it("Should keep the factory state across a factory upgrade", async function () {
+    const fixture = await loadFixture(deployPopulatedFixture);
+    const before = await factoryState(fixture);
+
+    const factoryV2 = await upgradeFactory(fixture);
+
+    expect(await factoryState(fixture)).to.deep.equal(before);
+    await factoryV2.setVersion("2.0.0");
+    expect(await factoryV2.testProxy()).to.equal("2.0.0");
+    expect(await factoryState(fixture)).to.deep.equal(before);
+  });
+
+  it("Should keep the wrapper state across a factory upgrade", async function () {
+    const fixture = await loadFixture(deployPopulatedFixture);
+    const before = await wrapperState(fixture);
+
+    await upgradeFactory(fixture);
+
+    expect(await wrapperState(fixture)).to.deep.equal(before);
+  });
+
+  it("Should keep the wrapper state across a wrapper upgrade", async function () {
+    const fixture = await loadFixture(deployPopulatedFixture);
+    const wrappersBefore = await wrapperState(fixture);
+
+    await upgradeWrappers(fixture);
+
+    for (const wrapper of fixture.wrappers) {
+      expect(await upgrades.erc1967.getImplementationAddress(await wrapper.getAddress())).to.equal(fixture.wrapperImplementationV2.target);
+      const wrapperV2 = await ethers.getContractAt("MockWrapperERC20V2", await wrapper.getAddress());
+      await wrapperV2.setVersion("2.0.0");
+    }
+
+    expect(await wrapperState(fixture)).to.deep.equal(wrappersBefore);
+  });
+
+  it("Should keep serving deposits, withdrawals and sweeps after both upgrades", async function () {
+    const fixture = await loadFixture(deployPopulatedFixture);
+    const { factory, tokens, wrappers, users, treasurer } = fixture;
+
+    await upgradeFactory(fixture);
+    await upgradeWrappers(fixture);
+
+    await factory.connect(treasurer).sweepAllFees();
+
+    for (const [index, wrapper] of wrappers.entries()) {
+      if (!(await factory.isDepositPaused(wrapper.target))) {
+        const amount = await tokens[index].balanceOf(users[0].address);
+        await tokens[index].connect(users[0]).approve(wrapper.target, amount);
+        await wrapper.connect(users[0])["deposit(uint256)"](amount);
+      }
+
+      for (const user of users.slice(0, 3)) {
+        await wrapper.connect(user)["withdraw(uint256)"](await wrapper.balanceOf(user.address));
+      }
+
+      expect(await wrapper.totalSupply()).to.equal(0);
+      expect(await wrapper.totalUnderlying()).to.equal(await wrapper.accruedFees());
+    }
+  });
+});
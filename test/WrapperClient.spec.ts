@@ -0,0 +1,150 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { WrapperClient, WrapperNotFoundError, decodeWrapperEvents } from "../sdk";
+import { deployWrapperFactory } from "./helpers/fixtures";
+
+describe("WrapperClient", function () {
+  async function deployWrapperClientFixture() {
+    const [admin, operator, treasurer, user, feeReceiver, otherAccount] = await ethers.getSigners();
+
+    const { factory } = await deployWrapperFactory({ admin, operator, treasurer, feeReceiver });
+
+    const BaseToken = await ethers.getContractFactory("BaseToken");
+    const usdtTokenTest = await BaseToken.deploy("USDT", "USDT");
+    await usdtTokenTest.waitForDeployment();
+
+    const deployment = await (await factory.connect(user).deployWrappedToken(usdtTokenTest.target)).wait();
+    const wrapper = await ethers.getContractAt("WrapperERC20", await factory.wrapperOf(usdtTokenTest.target));
+
+    await usdtTokenTest.transfer(user.address, ethers.parseEther("1000"));
+
+    const client = new WrapperClient(await factory.getAddress(), user);
+
+    return { client, factory, wrapper, usdtTokenTest, deployment, user, feeReceiver, otherAccount };
+  }
+
+  describe("constructor", function () {
+    it("Should require a signer connected to a provider", async function () {
+      const { factory } = await loadFixture(deployWrapperClientFixture);
+
+      expect(() => new WrapperClient(factory.target as string, ethers.Wallet.createRandom()))
+        .to.throw("WrapperClient needs a signer connected to a provider");
+    });
+  });
+
+  describe("findWrapper", function () {
+    it("Should find the wrapper of an underlying token", async function () {
+      const { client, wrapper, usdtTokenTest } = await loadFixture(deployWrapperClientFixture);
+
+      const found = await client.findWrapper(await usdtTokenTest.getAddress());
+      expect(await found!.getAddress()).to.equal(wrapper.target);
+    });
+
+    it("Should return null for tokens without wrapper", async function () {
+      const { client, otherAccount } = await loadFixture(deployWrapperClientFixture);
+
+      expect(await client.findWrapper(otherAccount.address)).to.be.null;
+    });
+  });
+
+  describe("previewDeposit", function () {
+    it("Should compute the fee split from the factory fee", async function () {
+      const { client, usdtTokenTest } = await loadFixture(deployWrapperClientFixture);
+
+      const amount = ethers.parseEther("100");
+      const preview = await client.previewDeposit(await usdtTokenTest.getAddress(), amount);
+
+      expect(preview).to.deep.equal({ amount, feeAmount: amount / 100n, wrappedAmount: amount - amount / 100n });
+    });
+
+    it("Should throw WrapperNotFoundError for unknown tokens", async function () {
+      const { client, otherAccount } = await loadFixture(deployWrapperClientFixture);
+
+      await expect(client.previewDeposit(otherAccount.address, 1n)).to.be.rejectedWith(WrapperNotFoundError);
+    });
+  });
+
+  describe("wrap", function () {
+    it("Should deposit with a permit signature", async function () {
+      const { client, wrapper, usdtTokenTest, user } = await loadFixture(deployWrapperClientFixture);
+
+      const amount = ethers.parseEther("100");
+      const receipt = await client.wrap(await usdtTokenTest.getAddress(), amount);
+
+      const [event] = client.decodeEvents(receipt);
+      expect(event.name).to.equal("Deposit");
+      expect(event.args).to.deep.include({ user: user.address, amountDeposited: amount });
+      expect(await wrapper.balanceOf(user.address)).to.equal(amount - amount / 100n);
+      expect(await usdtTokenTest.nonces(user.address)).to.equal(1);
+    });
+
+    it("Should credit a beneficiary", async function () {
+      const { client, wrapper, usdtTokenTest, otherAccount } = await loadFixture(deployWrapperClientFixture);
+
+      const amount = ethers.parseEther("10");
+      await client.wrap(await usdtTokenTest.getAddress(), amount, { beneficiary: otherAccount.address });
+
+      expect(await wrapper.balanceOf(otherAccount.address)).to.equal(amount - amount / 100n);
+    });
+
+    it("Should treat the signer in any letter case as the beneficiary", async function () {
+      const { client, wrapper, usdtTokenTest, user } = await loadFixture(deployWrapperClientFixture);
+
+      const amount = ethers.parseEther("10");
+      await client.wrap(await usdtTokenTest.getAddress(), amount, { permit: false, beneficiary: user.address.toLowerCase() });
+
+      expect(await wrapper.balanceOf(user.address)).to.equal(amount - amount / 100n);
+    });
+
+    it("Should approve and deposit when permit is disabled", async function () {
+      const { client, wrapper, usdtTokenTest, user } = await loadFixture(deployWrapperClientFixture);
+
+      const amount = ethers.parseEther("100");
+      await client.wrap(await usdtTokenTest.getAddress(), amount, { permit: false });
+
+      expect(await usdtTokenTest.nonces(user.address)).to.equal(0);
+      expect(await wrapper.balanceOf(user.address)).to.equal(amount - amount / 100n);
+    });
+
+    it("Should reuse an existing allowance", async function () {
+      const { client, wrapper, usdtTokenTest, user } = await loadFixture(deployWrapperClientFixture);
+
+      const amount = ethers.parseEther("100");
+      await usdtTokenTest.connect(user).approve(wrapper.target, amount);
+      await client.wrap(await usdtTokenTest.getAddress(), amount);
+
+      expect(await usdtTokenTest.nonces(user.address)).to.equal(0);
+      expect(await usdtTokenTest.allowance(user.address, wrapper.target)).to.equal(0);
+    });
+  });
+
+  describe("unwrap", function () {
+    it("Should withdraw the underlying token", async function () {
+      const { client, wrapper, usdtTokenTest, user } = await loadFixture(deployWrapperClientFixture);
+
+      const amount = ethers.parseEther("100");
+      await client.wrap(await usdtTokenTest.getAddress(), amount);
+      const wrapped = await wrapper.balanceOf(user.address);
+
+      const receipt = await client.unwrap(await usdtTokenTest.getAddress(), wrapped);
+
+      const [event] = client.decodeEvents(receipt);
+      expect(event.name).to.equal("Withdrawal");
+      expect(event.args).to.deep.include({ user: user.address, wrappedAmount: wrapped, underlyingAmount: wrapped });
+      expect(await wrapper.balanceOf(user.address)).to.equal(0);
+    });
+  });
+
+  describe("decodeWrapperEvents", function () {
+    it("Should decode WrappedTokenCreate events", async function () {
+      const { factory, wrapper, usdtTokenTest, deployment } = await loadFixture(deployWrapperClientFixture);
+
+      const events = decodeWrapperEvents(deployment!.logs);
+      const created = events.find((event) => event.name === "WrappedTokenCreate")!;
+
+      expect(created.address).to.equal(factory.target);
+      expect(created.args).to.deep.equal({ originalToken: usdtTokenTest.target, wrappedToken: wrapper.target });
+    });
+  });
+});
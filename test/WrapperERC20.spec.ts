@@ -1,8 +1,32 @@
-import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { loadFixture, setCode, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
 import { expect } from "chai";
 import { ethers, upgrades } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { BaseToken, WrapperERC20 } from "../typechain-types";
 
 describe("WrapperERC20", function () {
+    async function signPermit(token: BaseToken | WrapperERC20, owner: HardhatEthersSigner, spender: string, value: bigint, deadline: bigint) {
+        const signature = await owner.signTypedData(
+            {
+                name: await token.name(),
+                version: "1",
+                chainId: (await ethers.provider.getNetwork()).chainId,
+                verifyingContract: await token.getAddress(),
+            },
+            {
+                Permit: [
+                    { name: "owner", type: "address" },
+                    { name: "spender", type: "address" },
+                    { name: "value", type: "uint256" },
+                    { name: "nonce", type: "uint256" },
+                    { name: "deadline", type: "uint256" },
+                ],
+            },
+            { owner: owner.address, spender, value, nonce: await token.nonces(owner.address), deadline }
+        );
+        return ethers.Signature.from(signature);
+    }
+
     async function deployWrapperERC20Fixture() {
         const [owner, admin, operator, treasurer, user, feeReceiver, otherAccount] = await ethers.getSigners();
 
@@ -28,12 +52,12 @@ describe("WrapperERC20", function () {
 
         (await factory.connect(user).deployWrappedToken(usdtTestToken.target)).wait();
 
-        const wrappedTokens = await factory.getWrappedTokens();
+        const wrappedTokens = await factory["getWrappedTokens()"]();
         const wrapper = await ethers.getContractAt("WrapperERC20", wrappedTokens[0]);
 
         await usdtTestToken.transfer(user.address, ethers.parseEther("1000"));
 
-        return { wrapper, usdtTestToken, factory, owner, user, admin, feeReceiver, otherAccount, fee, wrapperImplementation }
+        return { wrapper, usdtTestToken, factory, owner, user, admin, operator, treasurer, feeReceiver, otherAccount, fee, wrapperImplementation }
     }
 
     describe("Initialization", function () {
@@ -85,12 +109,12 @@ describe("WrapperERC20", function () {
             const depositAmount = ethers.parseEther("100");
             await usdtTestToken.connect(user).approve(wrapper.target, depositAmount);
 
-            await expect(wrapper.connect(user).deposit(depositAmount))
+            await expect(wrapper.connect(user)["deposit(uint256)"](depositAmount))
                 .to.emit(wrapper, "Deposit")
                 .withArgs(user.address, depositAmount, depositAmount / fee, depositAmount - (depositAmount / fee), feeReceiver.address);
 
             expect(await wrapper.balanceOf(user.address)).to.equal(depositAmount - (depositAmount / fee));
-            expect(await usdtTestToken.balanceOf(wrapper.target)).to.equal(depositAmount - (depositAmount / fee));
+            expect(await usdtTestToken.balanceOf(wrapper.target)).to.equal(depositAmount);
         });
 
         it("Should charge correct fee on deposit", async function () {
@@ -101,22 +125,23 @@ describe("WrapperERC20", function () {
             const expectedNetAmount = depositAmount - expectedFee;
 
             await usdtTestToken.connect(user).approve(wrapper.target, depositAmount);
-            await wrapper.connect(user).deposit(depositAmount);
+            await wrapper.connect(user)["deposit(uint256)"](depositAmount);
 
             expect(await wrapper.balanceOf(user.address)).to.equal(expectedNetAmount);
-            expect(await usdtTestToken.balanceOf(feeReceiver.address)).to.equal(expectedFee);
+            expect(await wrapper.accruedFees()).to.equal(expectedFee);
+            expect(await usdtTestToken.balanceOf(feeReceiver.address)).to.equal(0);
         });
 
         it("Should revert with ZeroAmount if depositing 0", async function () {
             const { wrapper, user } = await loadFixture(deployWrapperERC20Fixture);
 
-            await expect(wrapper.connect(user).deposit(0))
+            await expect(wrapper.connect(user)["deposit(uint256)"](0))
                 .to.be.revertedWithCustomError(wrapper, "ZeroAmount");
         });
 
         it("Should revert with ERC20InsufficientAllowance if transferFrom fails", async function () {
             const { wrapper, user } = await loadFixture(deployWrapperERC20Fixture);
-            await expect(wrapper.connect(user).deposit(ethers.parseEther("100")))
+            await expect(wrapper.connect(user)["deposit(uint256)"](ethers.parseEther("100")))
                 .to.be.revertedWithCustomError(wrapper, "ERC20InsufficientAllowance");
         });
 
@@ -124,7 +149,7 @@ describe("WrapperERC20", function () {
             const { wrapper, usdtTestToken, user, owner, fee } = await loadFixture(deployWrapperERC20Fixture);
 
             const depositAmount = ethers.parseEther("100");
-            const deadline = Math.floor(Date.now() / 1000) + 3600; 
+            const deadline = (await time.latest()) + 3600;
 
             const nonce = await usdtTestToken.nonces(owner.address);
 
@@ -157,7 +182,7 @@ describe("WrapperERC20", function () {
             const { v, r, s } = ethers.Signature.from(signature);
 
             await expect(
-                wrapper.connect(user).depositWithPermit(
+                wrapper.connect(owner).depositWithPermit(
                     owner.address,
                     user.address,
                     depositAmount,
@@ -181,22 +206,257 @@ describe("WrapperERC20", function () {
         });
     });
 
+    describe("Deposit Authorization", function () {
+        async function signDepositAuthorization(wrapper: WrapperERC20, owner: HardhatEthersSigner, beneficiary: string, amount: bigint, deadline: bigint) {
+            return owner.signTypedData(
+                {
+                    name: await wrapper.name(),
+                    version: "1",
+                    chainId: (await ethers.provider.getNetwork()).chainId,
+                    verifyingContract: await wrapper.getAddress(),
+                },
+                {
+                    DepositAuthorization: [
+                        { name: "owner", type: "address" },
+                        { name: "beneficiary", type: "address" },
+                        { name: "amount", type: "uint256" },
+                        { name: "nonce", type: "uint256" },
+                        { name: "deadline", type: "uint256" },
+                    ],
+                },
+                { owner: owner.address, beneficiary, amount, nonce: await wrapper.nonces(owner.address), deadline }
+            );
+        }
+
+        async function deployAuthorizationFixture() {
+            const fixture = await deployWrapperERC20Fixture();
+            const { wrapper, usdtTestToken, owner } = fixture;
+
+            const depositAmount = ethers.parseEther("100");
+            const deadline = BigInt(await time.latest()) + 3600n;
+            const permit = await signPermit(usdtTestToken, owner, await wrapper.getAddress(), depositAmount, deadline);
+
+            return { ...fixture, depositAmount, deadline, permit };
+        }
+
+        it("Should let the owner pick any beneficiary", async function () {
+            const { wrapper, owner, user, depositAmount, deadline, permit } = await loadFixture(deployAuthorizationFixture);
+
+            await wrapper.connect(owner).depositWithPermit(owner.address, user.address, depositAmount, deadline, permit.v, permit.r, permit.s);
+
+            expect(await wrapper.balanceOf(user.address)).to.equal(depositAmount - depositAmount / 100n);
+        });
+
+        it("Should let anyone relay a deposit to the owner", async function () {
+            const { wrapper, owner, otherAccount, depositAmount, deadline, permit } = await loadFixture(deployAuthorizationFixture);
+
+            await wrapper.connect(otherAccount).depositWithPermit(owner.address, owner.address, depositAmount, deadline, permit.v, permit.r, permit.s);
+
+            expect(await wrapper.balanceOf(owner.address)).to.equal(depositAmount - depositAmount / 100n);
+        });
+
+        it("Should stop an attacker from redirecting a mempool permit to themselves", async function () {
+            const { wrapper, owner, otherAccount: attacker, depositAmount, deadline, permit } = await loadFixture(deployAuthorizationFixture);
+
+            await expect(
+                wrapper.connect(attacker).depositWithPermit(owner.address, attacker.address, depositAmount, deadline, permit.v, permit.r, permit.s)
+            ).to.be.revertedWithCustomError(wrapper, "UnauthorizedBeneficiary");
+        });
+
+        it("Should still deposit when an attacker front-runs the permit", async function () {
+            const { wrapper, usdtTestToken, owner, otherAccount: attacker, depositAmount, deadline, permit } = await loadFixture(deployAuthorizationFixture);
+
+            await usdtTestToken.connect(attacker).permit(owner.address, wrapper.target, depositAmount, deadline, permit.v, permit.r, permit.s);
+
+            await expect(
+                wrapper.connect(owner).depositWithPermit(owner.address, owner.address, depositAmount, deadline, permit.v, permit.r, permit.s)
+            ).to.emit(wrapper, "Deposit");
+        });
+
+        it("Should revert with PermitFailed when the permit is invalid and allowance is missing", async function () {
+            const { wrapper, owner, depositAmount, deadline, permit } = await loadFixture(deployAuthorizationFixture);
+
+            await expect(
+                wrapper.connect(owner).depositWithPermit(owner.address, owner.address, depositAmount + 1n, deadline, permit.v, permit.r, permit.s)
+            ).to.be.revertedWithCustomError(wrapper, "PermitFailed");
+        });
+
+        it("Should stop an attacker from wrapping a pre-approved owner with a bogus permit", async function () {
+            const { wrapper, usdtTestToken, owner, otherAccount: attacker, depositAmount, deadline } = await loadFixture(deployAuthorizationFixture);
+
+            await usdtTestToken.connect(owner).approve(wrapper.target, depositAmount);
+            const balance = await usdtTestToken.balanceOf(owner.address);
+
+            await expect(
+                wrapper.connect(attacker).depositWithPermit(owner.address, owner.address, depositAmount, deadline, 27, ethers.ZeroHash, ethers.ZeroHash)
+            ).to.be.revertedWithCustomError(wrapper, "PermitFailed");
+
+            expect(await usdtTestToken.balanceOf(owner.address)).to.equal(balance);
+            expect(await wrapper.balanceOf(owner.address)).to.equal(0);
+        });
+
+        it("Should stop a relayer from using the allowance once the permit was front-run", async function () {
+            const { wrapper, usdtTestToken, owner, otherAccount: relayer, depositAmount, deadline, permit } = await loadFixture(deployAuthorizationFixture);
+
+            await usdtTestToken.connect(relayer).permit(owner.address, wrapper.target, depositAmount, deadline, permit.v, permit.r, permit.s);
+
+            await expect(
+                wrapper.connect(relayer).depositWithPermit(owner.address, owner.address, depositAmount, deadline, permit.v, permit.r, permit.s)
+            ).to.be.revertedWithCustomError(wrapper, "PermitFailed");
+        });
+
+        it("Should let a relayer deposit for an authorized beneficiary", async function () {
+            const { wrapper, owner, user, otherAccount: relayer, depositAmount, deadline, permit } = await loadFixture(deployAuthorizationFixture);
+
+            const authorization = await signDepositAuthorization(wrapper, owner, user.address, depositAmount, deadline);
+
+            await expect(
+                wrapper.connect(relayer).depositWithAuthorization(owner.address, user.address, depositAmount, deadline, permit.v, permit.r, permit.s, authorization)
+            ).to.emit(wrapper, "Deposit");
+
+            expect(await wrapper.balanceOf(user.address)).to.equal(depositAmount - depositAmount / 100n);
+            expect(await wrapper.nonces(owner.address)).to.equal(1);
+        });
+
+        it("Should stop an attacker from changing the authorized beneficiary or amount", async function () {
+            const { wrapper, owner, user, otherAccount: attacker, depositAmount, deadline, permit } = await loadFixture(deployAuthorizationFixture);
+
+            const authorization = await signDepositAuthorization(wrapper, owner, user.address, depositAmount, deadline);
+
+            await expect(
+                wrapper.connect(attacker).depositWithAuthorization(owner.address, attacker.address, depositAmount, deadline, permit.v, permit.r, permit.s, authorization)
+            ).to.be.revertedWithCustomError(wrapper, "InvalidAuthorization");
+            await expect(
+                wrapper.connect(attacker).depositWithAuthorization(owner.address, user.address, depositAmount / 2n, deadline, permit.v, permit.r, permit.s, authorization)
+            ).to.be.revertedWithCustomError(wrapper, "InvalidAuthorization");
+        });
+
+        it("Should stop an attacker from replaying an authorization", async function () {
+            const { wrapper, usdtTestToken, owner, user, otherAccount: attacker, depositAmount, deadline, permit } = await loadFixture(deployAuthorizationFixture);
+
+            const authorization = await signDepositAuthorization(wrapper, owner, user.address, depositAmount, deadline);
+            await wrapper.connect(user).depositWithAuthorization(owner.address, user.address, depositAmount, deadline, permit.v, permit.r, permit.s, authorization);
+
+            await usdtTestToken.connect(owner).approve(wrapper.target, depositAmount);
+            await expect(
+                wrapper.connect(attacker).depositWithAuthorization(owner.address, user.address, depositAmount, deadline, permit.v, permit.r, permit.s, authorization)
+            ).to.be.revertedWithCustomError(wrapper, "InvalidAuthorization");
+        });
+
+        it("Should reject expired authorizations", async function () {
+            const { wrapper, owner, user, depositAmount, deadline, permit } = await loadFixture(deployAuthorizationFixture);
+
+            const authorization = await signDepositAuthorization(wrapper, owner, user.address, depositAmount, deadline);
+            await time.increaseTo(deadline + 1n);
+
+            await expect(
+                wrapper.connect(user).depositWithAuthorization(owner.address, user.address, depositAmount, deadline, permit.v, permit.r, permit.s, authorization)
+            ).to.be.revertedWithCustomError(wrapper, "AuthorizationExpired");
+        });
+
+        describe("Permit2", function () {
+            async function deployPermit2Fixture() {
+                const fixture = await deployWrapperERC20Fixture();
+                const { factory, owner, user } = fixture;
+
+                const MockPermit2 = await ethers.getContractFactory("MockPermit2");
+                const mockPermit2 = await MockPermit2.deploy();
+                const permit2Address = await fixture.wrapper.PERMIT2();
+                await setCode(permit2Address, (await ethers.provider.getCode(mockPermit2.target))!);
+
+                const NoReturnToken = await ethers.getContractFactory("NoReturnToken");
+                const noReturnToken = await NoReturnToken.deploy();
+                await factory.connect(user).deployWrappedToken(noReturnToken.target);
+                const wrapper = await ethers.getContractAt("WrapperERC20", await factory.wrapperOf(noReturnToken.target));
+
+                await noReturnToken.connect(owner).approve(permit2Address, ethers.MaxUint256);
+
+                const depositAmount = ethers.parseEther("100");
+                const permit = {
+                    permitted: { token: await noReturnToken.getAddress(), amount: depositAmount },
+                    nonce: 0n,
+                    deadline: BigInt(await time.latest()) + 3600n,
+                };
+
+                const signature = await owner.signTypedData(
+                    {
+                        name: "Permit2",
+                        chainId: (await ethers.provider.getNetwork()).chainId,
+                        verifyingContract: permit2Address,
+                    },
+                    {
+                        PermitWitnessTransferFrom: [
+                            { name: "permitted", type: "TokenPermissions" },
+                            { name: "spender", type: "address" },
+                            { name: "nonce", type: "uint256" },
+                            { name: "deadline", type: "uint256" },
+                            { name: "witness", type: "DepositWitness" },
+                        ],
+                        TokenPermissions: [
+                            { name: "token", type: "address" },
+                            { name: "amount", type: "uint256" },
+                        ],
+                        DepositWitness: [{ name: "beneficiary", type: "address" }],
+                    },
+                    { ...permit, spender: await wrapper.getAddress(), witness: { beneficiary: user.address } }
+                );
+
+                return { ...fixture, wrapper, noReturnToken, permit, signature, depositAmount };
+            }
+
+            it("Should deposit underlyings without EIP-2612 through Permit2", async function () {
+                const { wrapper, owner, user, otherAccount: relayer, permit, signature, depositAmount } = await loadFixture(deployPermit2Fixture);
+
+                await expect(wrapper.connect(relayer).depositWithPermit2(owner.address, user.address, permit, signature))
+                    .to.emit(wrapper, "Deposit");
+
+                expect(await wrapper.balanceOf(user.address)).to.equal(depositAmount - depositAmount / 100n);
+                expect(await wrapper.totalSupply() + await wrapper.accruedFees()).to.equal(await wrapper.totalUnderlying());
+            });
+
+            it("Should stop an attacker from changing the Permit2 beneficiary", async function () {
+                const { wrapper, owner, otherAccount: attacker, permit, signature } = await loadFixture(deployPermit2Fixture);
+
+                await expect(wrapper.connect(attacker).depositWithPermit2(owner.address, attacker.address, permit, signature))
+                    .to.be.revertedWith("InvalidSigner");
+            });
+
+            it("Should stop an attacker from replaying a Permit2 signature", async function () {
+                const { wrapper, owner, user, permit, signature } = await loadFixture(deployPermit2Fixture);
+
+                await wrapper.depositWithPermit2(owner.address, user.address, permit, signature);
+
+                await expect(wrapper.depositWithPermit2(owner.address, user.address, permit, signature))
+                    .to.be.revertedWith("InvalidNonce");
+            });
+
+            it("Should reject permits for another token", async function () {
+                const { wrapper, usdtTestToken, owner, user, permit, signature } = await loadFixture(deployPermit2Fixture);
+
+                const otherPermit = { ...permit, permitted: { ...permit.permitted, token: await usdtTestToken.getAddress() } };
+
+                await expect(wrapper.depositWithPermit2(owner.address, user.address, otherPermit, signature))
+                    .to.be.revertedWithCustomError(wrapper, "InvalidUnderlyingToken");
+            });
+        });
+    });
+
     describe("Withdraw Functionality", function () {
         it("Should burn wrapped tokens and return underlying on withdraw", async function () {
-            const { wrapper, usdtTestToken, user, fee } = await loadFixture(deployWrapperERC20Fixture);
+            const { wrapper, usdtTestToken, user, feeReceiver, fee } = await loadFixture(deployWrapperERC20Fixture);
 
             const depositAmount = ethers.parseEther("100");
             const initialBalance = await usdtTestToken.balanceOf(user.address);
 
             await (await usdtTestToken.connect(user).approve(wrapper.target, depositAmount)).wait();
-            await (await wrapper.connect(user).deposit(depositAmount)).wait();
+            await (await wrapper.connect(user)["deposit(uint256)"](depositAmount)).wait();
 
             const wrappedBalance = await wrapper.balanceOf(user.address);
             expect(wrappedBalance).to.be.gt(0);
 
-            await expect(wrapper.connect(user).withdraw(wrappedBalance))
+            await expect(wrapper.connect(user)["withdraw(uint256)"](wrappedBalance))
                 .to.emit(wrapper, "Withdrawal")
-                .withArgs(user.address, wrappedBalance, wrappedBalance);
+                .withArgs(user.address, wrappedBalance, 0, wrappedBalance, feeReceiver.address);
 
             expect(await wrapper.balanceOf(user.address)).to.equal(0);
             expect(await usdtTestToken.balanceOf(user.address)).to.be.closeTo(
@@ -208,14 +468,14 @@ describe("WrapperERC20", function () {
         it("Should revert with ZeroAmount if withdrawing 0", async function () {
             const { wrapper, user } = await loadFixture(deployWrapperERC20Fixture);
 
-            await expect(wrapper.connect(user).withdraw(0))
+            await expect(wrapper.connect(user)["withdraw(uint256)"](0))
                 .to.be.revertedWithCustomError(wrapper, "ZeroAmount");
         });
 
         it("Should revert with InvalidAmount if insufficient balance", async function () {
             const { wrapper, user } = await loadFixture(deployWrapperERC20Fixture);
 
-            await expect(wrapper.connect(user).withdraw(1))
+            await expect(wrapper.connect(user)["withdraw(uint256)"](1))
                 .to.be.revertedWithCustomError(wrapper, "InsufficientBalance");
         });
 
@@ -224,32 +484,558 @@ describe("WrapperERC20", function () {
 
             const depositAmount = ethers.parseEther("100");
             await usdtTestToken.connect(user).approve(wrapper.target, depositAmount);
-            await wrapper.connect(user).deposit(depositAmount);
+            await wrapper.connect(user)["deposit(uint256)"](depositAmount);
 
             await usdtTestToken.transfer(user.address, await usdtTestToken.balanceOf(wrapper.target));
 
-            await expect(wrapper.connect(user).withdraw(await wrapper.balanceOf(user.address) + 1n))
+            await expect(wrapper.connect(user)["withdraw(uint256)"](await wrapper.balanceOf(user.address) + 1n))
                 .to.be.revertedWithCustomError(wrapper, "InsufficientBalance");
         });
     });
 
+    describe("Wrapped Token Permit", function () {
+        async function deployWrappedPermitFixture() {
+            const fixture = await deployWrapperERC20Fixture();
+            const { wrapper, usdtTestToken, user } = fixture;
+
+            const depositAmount = ethers.parseEther("100");
+            await usdtTestToken.connect(user).approve(wrapper.target, depositAmount);
+            await wrapper.connect(user)["deposit(uint256)"](depositAmount);
+
+            const wrappedAmount = await wrapper.balanceOf(user.address);
+            const deadline = BigInt(await time.latest()) + 3600n;
+
+            return { ...fixture, wrappedAmount, deadline };
+        }
+
+        it("Should approve through an EIP-2612 permit", async function () {
+            const { wrapper, user, otherAccount, wrappedAmount, deadline } = await loadFixture(deployWrappedPermitFixture);
+
+            const { v, r, s } = await signPermit(wrapper, user, otherAccount.address, wrappedAmount, deadline);
+
+            await expect(wrapper.connect(otherAccount).permit(user.address, otherAccount.address, wrappedAmount, deadline, v, r, s))
+                .to.emit(wrapper, "Approval")
+                .withArgs(user.address, otherAccount.address, wrappedAmount);
+
+            expect(await wrapper.allowance(user.address, otherAccount.address)).to.equal(wrappedAmount);
+            expect(await wrapper.nonces(user.address)).to.equal(1);
+        });
+
+        it("Should use a domain of its own for each wrapper", async function () {
+            const { factory, wrapper, user } = await loadFixture(deployWrappedPermitFixture);
+
+            const BaseToken = await ethers.getContractFactory("BaseToken");
+            const daiTestToken = await BaseToken.deploy("DAI", "DAI");
+            await factory.connect(user).deployWrappedToken(daiTestToken.target);
+            const daiWrapper = await ethers.getContractAt("WrapperERC20", await factory.wrapperOf(daiTestToken.target));
+
+            const domain = await wrapper.eip712Domain();
+            expect(domain.name).to.equal("Wrapped-USDT");
+            expect(domain.version).to.equal("1");
+            expect(domain.verifyingContract).to.equal(wrapper.target);
+            expect(await daiWrapper.DOMAIN_SEPARATOR()).to.not.equal(await wrapper.DOMAIN_SEPARATOR());
+        });
+
+        it("Should reject permits signed for another wrapper", async function () {
+            const { factory, wrapper, user, otherAccount, wrappedAmount, deadline } = await loadFixture(deployWrappedPermitFixture);
+
+            const BaseToken = await ethers.getContractFactory("BaseToken");
+            const daiTestToken = await BaseToken.deploy("DAI", "DAI");
+            await factory.connect(user).deployWrappedToken(daiTestToken.target);
+            const daiWrapper = await ethers.getContractAt("WrapperERC20", await factory.wrapperOf(daiTestToken.target));
+
+            const { v, r, s } = await signPermit(daiWrapper, user, otherAccount.address, wrappedAmount, deadline);
+
+            await expect(wrapper.permit(user.address, otherAccount.address, wrappedAmount, deadline, v, r, s))
+                .to.be.revertedWithCustomError(wrapper, "ERC2612InvalidSigner");
+        });
+
+        it("Should withdraw to another receiver", async function () {
+            const { wrapper, usdtTestToken, user, otherAccount, feeReceiver, wrappedAmount } = await loadFixture(deployWrappedPermitFixture);
+
+            await expect(wrapper.connect(user).withdrawTo(otherAccount.address, wrappedAmount))
+                .to.emit(wrapper, "Withdrawal")
+                .withArgs(user.address, wrappedAmount, 0, wrappedAmount, feeReceiver.address);
+
+            expect(await usdtTestToken.balanceOf(otherAccount.address)).to.equal(wrappedAmount);
+            expect(await wrapper.balanceOf(user.address)).to.equal(0);
+        });
+
+        it("Should revert withdrawTo the zero address", async function () {
+            const { wrapper, user, wrappedAmount } = await loadFixture(deployWrappedPermitFixture);
+
+            await expect(wrapper.connect(user).withdrawTo(ethers.ZeroAddress, wrappedAmount))
+                .to.be.revertedWithCustomError(wrapper, "InvalidReceiver");
+        });
+
+        it("Should let a relayer withdraw with a permit", async function () {
+            const { wrapper, usdtTestToken, user, otherAccount: relayer, owner: receiver, wrappedAmount, deadline } = await loadFixture(deployWrappedPermitFixture);
+
+            const receiverBalance = await usdtTestToken.balanceOf(receiver.address);
+            const { v, r, s } = await signPermit(wrapper, user, relayer.address, wrappedAmount, deadline);
+
+            await expect(wrapper.connect(relayer).withdrawWithPermit(user.address, receiver.address, wrappedAmount, deadline, v, r, s))
+                .to.emit(wrapper, "Withdrawal");
+
+            expect(await usdtTestToken.balanceOf(receiver.address)).to.equal(receiverBalance + wrappedAmount);
+            expect(await wrapper.balanceOf(user.address)).to.equal(0);
+            expect(await wrapper.allowance(user.address, relayer.address)).to.equal(0);
+        });
+
+        it("Should only let the permitted spender relay the withdrawal", async function () {
+            const { wrapper, user, otherAccount: relayer, owner: attacker, wrappedAmount, deadline } = await loadFixture(deployWrappedPermitFixture);
+
+            const { v, r, s } = await signPermit(wrapper, user, relayer.address, wrappedAmount, deadline);
+
+            await expect(wrapper.connect(attacker).withdrawWithPermit(user.address, attacker.address, wrappedAmount, deadline, v, r, s))
+                .to.be.revertedWithCustomError(wrapper, "PermitFailed");
+        });
+
+        it("Should still withdraw when the permit was front-run", async function () {
+            const { wrapper, user, otherAccount: relayer, owner: attacker, wrappedAmount, deadline } = await loadFixture(deployWrappedPermitFixture);
+
+            const { v, r, s } = await signPermit(wrapper, user, relayer.address, wrappedAmount, deadline);
+            await wrapper.connect(attacker).permit(user.address, relayer.address, wrappedAmount, deadline, v, r, s);
+
+            await expect(wrapper.connect(relayer).withdrawWithPermit(user.address, relayer.address, wrappedAmount, deadline, v, r, s))
+                .to.emit(wrapper, "Withdrawal");
+        });
+
+        it("Should initialize the permit domain when migrating wrappers deployed without it", async function () {
+            const [admin, operator, treasurer, user, feeReceiver, relayer] = await ethers.getSigners();
+
+            const BaseToken = await ethers.getContractFactory("BaseToken");
+            const usdtTestToken = await BaseToken.deploy("USDT", "USDT");
+            await usdtTestToken.transfer(user.address, ethers.parseEther("1000"));
+
+            const MockWrapperERC20V1 = await ethers.getContractFactory("MockWrapperERC20V1");
+            const wrapperImplementationV1 = await MockWrapperERC20V1.deploy();
+
+            const MockWrapperFactoryV1 = await ethers.getContractFactory("MockWrapperFactoryV1");
+            const factoryV1 = await upgrades.deployProxy(
+                MockWrapperFactoryV1,
+                [admin.address, operator.address, treasurer.address, feeReceiver.address, 100n],
+                { initializer: "initialize", kind: "uups" }
+            );
+            await factoryV1.setImplementation(wrapperImplementationV1.target);
+            await factoryV1.connect(user).deployWrappedToken(usdtTestToken.target);
+            const [wrapperAddress] = await factoryV1.getWrappedTokens();
+
+            const depositAmount = ethers.parseEther("100");
+            const wrapperV1 = await ethers.getContractAt("MockWrapperERC20V1", wrapperAddress);
+            await usdtTestToken.connect(user).approve(wrapperAddress, depositAmount);
+            await wrapperV1.connect(user).deposit(depositAmount);
+            const wrappedBalance = await wrapperV1.balanceOf(user.address);
+
+            const WrapperFactory = await ethers.getContractFactory("WrapperFactory");
+            const factory = await upgrades.upgradeProxy(factoryV1.target, WrapperFactory, { kind: "uups", call: "initializeV2" });
+            await factory.syncWrappedTokens(0, 10);
+
+            const WrapperERC20 = await ethers.getContractFactory("WrapperERC20");
+            const wrapperImplementation = await WrapperERC20.deploy();
+            await factory.setImplementation(wrapperImplementation.target);
+            await factory.upgradeWrappersAndCall([wrapperAddress], WrapperERC20.interface.encodeFunctionData("initializeV2"));
+
+            const wrapper = await ethers.getContractAt("WrapperERC20", wrapperAddress);
+            expect((await wrapper.eip712Domain()).name).to.equal("Wrapped-USDT");
+            await expect(wrapper.initializeV2()).to.be.revertedWithCustomError(wrapper, "InvalidInitialization");
+
+            const deadline = BigInt(await time.latest()) + 3600n;
+            const { v, r, s } = await signPermit(wrapper, user, relayer.address, wrappedBalance, deadline);
+            await wrapper.connect(relayer).withdrawWithPermit(user.address, user.address, wrappedBalance, deadline, v, r, s);
+
+            expect(await wrapper.balanceOf(user.address)).to.equal(0);
+        });
+    });
+
+    describe("Fee Overrides", function () {
+        it("Should charge the wrapper deposit fee override", async function () {
+            const { wrapper, factory, usdtTestToken, user, operator, feeReceiver } = await loadFixture(deployWrapperERC20Fixture);
+
+            await factory.connect(operator).setDepositFeeOverride(wrapper.target, 5n);
+
+            const depositAmount = ethers.parseEther("100");
+            const expectedFee = depositAmount * 5n / 10000n;
+            await usdtTestToken.connect(user).approve(wrapper.target, depositAmount);
+
+            await expect(wrapper.connect(user)["deposit(uint256)"](depositAmount))
+                .to.emit(wrapper, "Deposit")
+                .withArgs(user.address, depositAmount, expectedFee, depositAmount - expectedFee, feeReceiver.address);
+        });
+
+        it("Should charge the withdrawal fee and report the split", async function () {
+            const { wrapper, factory, usdtTestToken, user, operator, feeReceiver } = await loadFixture(deployWrapperERC20Fixture);
+
+            const depositAmount = ethers.parseEther("100");
+            await usdtTestToken.connect(user).approve(wrapper.target, depositAmount);
+            await wrapper.connect(user)["deposit(uint256)"](depositAmount);
+
+            await factory.connect(operator).setWithdrawalFee(50n);
+
+            const wrappedBalance = await wrapper.balanceOf(user.address);
+            const expectedFee = wrappedBalance * 50n / 10000n;
+            const accruedFees = await wrapper.accruedFees();
+
+            await expect(wrapper.connect(user)["withdraw(uint256)"](wrappedBalance))
+                .to.emit(wrapper, "Withdrawal")
+                .withArgs(user.address, wrappedBalance, expectedFee, wrappedBalance - expectedFee, feeReceiver.address);
+
+            expect(await wrapper.accruedFees()).to.equal(accruedFees + expectedFee);
+            expect(await wrapper.totalUnderlying()).to.equal(accruedFees + expectedFee);
+        });
+
+        it("Should charge the wrapper withdrawal fee override", async function () {
+            const { wrapper, factory, usdtTestToken, user, operator } = await loadFixture(deployWrapperERC20Fixture);
+
+            const depositAmount = ethers.parseEther("100");
+            await usdtTestToken.connect(user).approve(wrapper.target, depositAmount);
+            await wrapper.connect(user)["deposit(uint256)"](depositAmount);
+
+            await factory.connect(operator).setWithdrawalFee(50n);
+            await factory.connect(operator).setWithdrawalFeeOverride(wrapper.target, 0n);
+
+            const wrappedBalance = await wrapper.balanceOf(user.address);
+            const initialBalance = await usdtTestToken.balanceOf(user.address);
+            await wrapper.connect(user)["withdraw(uint256)"](wrappedBalance);
+
+            expect(await usdtTestToken.balanceOf(user.address)).to.equal(initialBalance + wrappedBalance);
+        });
+
+        it("Should apply the new fees after upgrading existing factory and wrappers", async function () {
+            const [admin, operator, treasurer, user, feeReceiver] = await ethers.getSigners();
+
+            const USDTTestToken = await ethers.getContractFactory("BaseToken");
+            const usdtTestToken = await USDTTestToken.deploy("USDT", "USDT");
+            await usdtTestToken.transfer(user.address, ethers.parseEther("1000"));
+
+            const MockWrapperERC20V1 = await ethers.getContractFactory("MockWrapperERC20V1");
+            const wrapperImplementationV1 = await MockWrapperERC20V1.deploy();
+
+            const MockWrapperFactoryV1 = await ethers.getContractFactory("MockWrapperFactoryV1");
+            const factoryV1 = await upgrades.deployProxy(
+                MockWrapperFactoryV1,
+                [admin.address, operator.address, treasurer.address, feeReceiver.address, 100n],
+                { initializer: "initialize", kind: "uups" }
+            );
+            await factoryV1.setImplementation(wrapperImplementationV1.target);
+            await factoryV1.connect(user).deployWrappedToken(usdtTestToken.target);
+            const [wrapperAddress] = await factoryV1.getWrappedTokens();
+
+            const depositAmount = ethers.parseEther("100");
+            const wrapperV1 = await ethers.getContractAt("MockWrapperERC20V1", wrapperAddress);
+            await usdtTestToken.connect(user).approve(wrapperAddress, depositAmount);
+            await wrapperV1.connect(user).deposit(depositAmount);
+            const wrappedBalance = await wrapperV1.balanceOf(user.address);
+
+            const WrapperFactory = await ethers.getContractFactory("WrapperFactory");
+            const factory = await upgrades.upgradeProxy(factoryV1.target, WrapperFactory, { kind: "uups" });
+            await factory.syncWrappedTokens(0, 10);
+
+            const WrapperERC20 = await ethers.getContractFactory("WrapperERC20");
+            const wrapperImplementation = await WrapperERC20.deploy();
+            await factory.setImplementation(wrapperImplementation.target);
+            await factory.upgradeWrapper(wrapperAddress);
+
+            const wrapper = await ethers.getContractAt("WrapperERC20", wrapperAddress);
+            expect(await wrapper.balanceOf(user.address)).to.equal(wrappedBalance);
+            expect(await factory.getWithdrawalFeeFor(wrapperAddress)).to.equal(0);
+            expect(await factory.getDepositFeeFor(wrapperAddress)).to.equal(100n);
+
+            await factory.connect(operator).setDepositFeeOverride(wrapperAddress, 10n);
+            await factory.connect(operator).setWithdrawalFee(20n);
+
+            const withdrawalFee = wrappedBalance * 20n / 10000n;
+            await expect(wrapper.connect(user)["withdraw(uint256)"](wrappedBalance))
+                .to.emit(wrapper, "Withdrawal")
+                .withArgs(user.address, wrappedBalance, withdrawalFee, wrappedBalance - withdrawalFee, feeReceiver.address);
+
+            await usdtTestToken.connect(user).approve(wrapperAddress, depositAmount);
+            await wrapper.connect(user)["deposit(uint256)"](depositAmount);
+            expect(await wrapper.balanceOf(user.address)).to.equal(depositAmount - depositAmount * 10n / 10000n);
+        });
+    });
+
+    describe("Pause", function () {
+        async function deployPauseFixture() {
+            const fixture = await deployWrapperERC20Fixture();
+            const { factory, admin, wrapper, usdtTestToken, user, otherAccount } = fixture;
+
+            await factory.connect(admin).grantRole(await factory.GUARDIAN_ROLE(), otherAccount.address);
+
+            const depositAmount = ethers.parseEther("100");
+            await usdtTestToken.connect(user).approve(wrapper.target, ethers.MaxUint256);
+            await wrapper.connect(user)["deposit(uint256)"](depositAmount);
+
+            return { ...fixture, guardian: otherAccount, depositAmount };
+        }
+
+        async function expectState(wrapper: WrapperERC20, user: HardhatEthersSigner, depositsOpen: boolean, withdrawalsOpen: boolean) {
+            const deposit = expect(wrapper.connect(user)["deposit(uint256)"](1000n));
+            if (depositsOpen) await deposit.to.emit(wrapper, "Deposit");
+            else await deposit.to.be.revertedWithCustomError(wrapper, "DepositsPaused");
+
+            const withdrawal = expect(wrapper.connect(user)["withdraw(uint256)"](1000n));
+            if (withdrawalsOpen) await withdrawal.to.emit(wrapper, "Withdrawal");
+            else await withdrawal.to.be.revertedWithCustomError(wrapper, "WithdrawalsPaused");
+        }
+
+        const combinations = [
+            { global: [false, false], local: [false, false], open: [true, true] },
+            { global: [true, false], local: [false, false], open: [false, true] },
+            { global: [true, true], local: [false, false], open: [false, false] },
+            { global: [false, true], local: [false, false], open: [true, false] },
+            { global: [false, false], local: [true, false], open: [false, true] },
+            { global: [false, false], local: [true, true], open: [false, false] },
+            { global: [false, false], local: [false, true], open: [true, false] },
+            { global: [true, false], local: [false, true], open: [false, false] },
+        ];
+
+        for (const { global, local, open } of combinations) {
+            it(`Should apply global ${global} and wrapper ${local} pauses`, async function () {
+                const { factory, wrapper, user, guardian } = await loadFixture(deployPauseFixture);
+
+                await factory.connect(guardian).setGlobalPause(global[0], global[1]);
+                await factory.connect(guardian).setWrapperPause(wrapper.target, local[0], local[1]);
+
+                expect(await factory.isDepositPaused(wrapper.target)).to.equal(!open[0]);
+                expect(await factory.isWithdrawalPaused(wrapper.target)).to.equal(!open[1]);
+                await expectState(wrapper, user, open[0], open[1]);
+            });
+        }
+
+        it("Should block depositWithPermit while deposits are paused", async function () {
+            const { factory, wrapper, user, guardian } = await loadFixture(deployPauseFixture);
+
+            await factory.connect(guardian).setGlobalPause(true, false);
+
+            await expect(
+                wrapper.connect(user).depositWithPermit(user.address, user.address, 1000n, 0, 0, ethers.ZeroHash, ethers.ZeroHash)
+            ).to.be.revertedWithCustomError(wrapper, "DepositsPaused");
+        });
+
+        it("Should only pause the targeted wrapper", async function () {
+            const { factory, wrapper, user, guardian, owner } = await loadFixture(deployPauseFixture);
+
+            const BaseToken = await ethers.getContractFactory("BaseToken");
+            const daiTestToken = await BaseToken.deploy("DAI", "DAI");
+            await factory.connect(user).deployWrappedToken(daiTestToken.target);
+            const daiWrapper = await ethers.getContractAt("WrapperERC20", await factory.wrapperOf(daiTestToken.target));
+
+            await factory.connect(guardian).setWrapperPause(wrapper.target, true, true);
+
+            await daiTestToken.connect(owner).approve(daiWrapper.target, 1000n);
+            await expect(daiWrapper.connect(owner)["deposit(uint256)"](1000n)).to.emit(daiWrapper, "Deposit");
+        });
+
+        it("Should resume after unpausing", async function () {
+            const { factory, wrapper, user, guardian } = await loadFixture(deployPauseFixture);
+
+            await factory.connect(guardian).setGlobalPause(true, true);
+            await factory.connect(guardian).setGlobalPause(false, false);
+
+            await expectState(wrapper, user, true, true);
+        });
+    });
+
+    describe("Decimals", function () {
+        for (const decimals of [6, 8, 18]) {
+            it(`Should mirror a ${decimals}-decimal underlying`, async function () {
+                const { factory, user } = await loadFixture(deployWrapperERC20Fixture);
+
+                const BaseTokenWithDecimals = await ethers.getContractFactory("BaseTokenWithDecimals");
+                const underlying = await BaseTokenWithDecimals.deploy("Token", "TKN", decimals);
+                await underlying.transfer(user.address, ethers.parseUnits("1000", decimals));
+
+                await factory.connect(user).deployWrappedToken(underlying.target);
+                const wrapper = await ethers.getContractAt("WrapperERC20", await factory.wrapperOf(underlying.target));
+
+                expect(await wrapper.decimals()).to.equal(decimals);
+
+                const depositAmount = ethers.parseUnits("100", decimals);
+                await underlying.connect(user).approve(wrapper.target, depositAmount);
+                await wrapper.connect(user)["deposit(uint256)"](depositAmount);
+
+                expect(ethers.formatUnits(await wrapper.balanceOf(user.address), await wrapper.decimals())).to.equal("99.0");
+            });
+        }
+
+        it("Should fall back to 18 decimals when the underlying does not implement them", async function () {
+            const { factory, user } = await loadFixture(deployWrapperERC20Fixture);
+
+            const NoReturnToken = await ethers.getContractFactory("NoReturnToken");
+            const noReturnToken = await NoReturnToken.deploy();
+
+            await factory.connect(user).deployWrappedToken(noReturnToken.target);
+            const wrapper = await ethers.getContractAt("WrapperERC20", await factory.wrapperOf(noReturnToken.target));
+
+            expect(await wrapper.decimals()).to.equal(18);
+        });
+
+        it("Should mirror the decimals of already deployed wrappers after upgrading them", async function () {
+            const [admin, operator, treasurer, user, feeReceiver] = await ethers.getSigners();
+
+            const BaseTokenWithDecimals = await ethers.getContractFactory("BaseTokenWithDecimals");
+            const usdcTestToken = await BaseTokenWithDecimals.deploy("USDC", "USDC", 6);
+            await usdcTestToken.transfer(user.address, ethers.parseUnits("1000", 6));
+
+            const MockWrapperERC20V1 = await ethers.getContractFactory("MockWrapperERC20V1");
+            const wrapperImplementationV1 = await MockWrapperERC20V1.deploy();
+
+            const MockWrapperFactoryV1 = await ethers.getContractFactory("MockWrapperFactoryV1");
+            const factoryV1 = await upgrades.deployProxy(
+                MockWrapperFactoryV1,
+                [admin.address, operator.address, treasurer.address, feeReceiver.address, 100n],
+                { initializer: "initialize", kind: "uups" }
+            );
+            await factoryV1.setImplementation(wrapperImplementationV1.target);
+            await factoryV1.connect(user).deployWrappedToken(usdcTestToken.target);
+            const [wrapperAddress] = await factoryV1.getWrappedTokens();
+
+            const depositAmount = ethers.parseUnits("100", 6);
+            const wrapperV1 = await ethers.getContractAt("MockWrapperERC20V1", wrapperAddress);
+            await usdcTestToken.connect(user).approve(wrapperAddress, depositAmount);
+            await wrapperV1.connect(user).deposit(depositAmount);
+            const wrappedBalance = await wrapperV1.balanceOf(user.address);
+            expect(await wrapperV1.decimals()).to.equal(18);
+
+            const WrapperFactory = await ethers.getContractFactory("WrapperFactory");
+            const factory = await upgrades.upgradeProxy(factoryV1.target, WrapperFactory, { kind: "uups", call: "initializeV2" });
+            await factory.syncWrappedTokens(0, 10);
+
+            const WrapperERC20 = await ethers.getContractFactory("WrapperERC20");
+            const wrapperImplementation = await WrapperERC20.deploy();
+            await factory.setImplementation(wrapperImplementation.target);
+            await factory.upgradeWrapper(wrapperAddress);
+
+            const wrapper = await ethers.getContractAt("WrapperERC20", wrapperAddress);
+            expect(await wrapper.decimals()).to.equal(6);
+
+            await factory.upgradeWrappersAndCall([wrapperAddress], WrapperERC20.interface.encodeFunctionData("initializeV3"));
+
+            expect(await wrapper.decimals()).to.equal(6);
+            expect(await wrapper.balanceOf(user.address)).to.equal(wrappedBalance);
+            expect((await wrapper.eip712Domain()).name).to.equal("Wrapped-USDC");
+            await expect(wrapper.initializeV3()).to.be.revertedWithCustomError(wrapper, "InvalidInitialization");
+        });
+    });
+
+    describe("Non-standard Underlyings", function () {
+        async function deployNonStandardFixture() {
+            const fixture = await deployWrapperERC20Fixture();
+            const { factory, user } = fixture;
+
+            const NoReturnToken = await ethers.getContractFactory("NoReturnToken");
+            const noReturnToken = await NoReturnToken.deploy();
+            await noReturnToken.waitForDeployment();
+
+            const FeeOnTransferToken = await ethers.getContractFactory("FeeOnTransferToken");
+            const feeOnTransferToken = await FeeOnTransferToken.deploy("Taxed", "TAX", 200n);
+            await feeOnTransferToken.waitForDeployment();
+
+            await factory.connect(user).deployWrappedToken(noReturnToken.target);
+            await factory.connect(user).deployWrappedToken(feeOnTransferToken.target);
+
+            const noReturnWrapper = await ethers.getContractAt("WrapperERC20", await factory.wrapperOf(noReturnToken.target));
+            const feeOnTransferWrapper = await ethers.getContractAt("WrapperERC20", await factory.wrapperOf(feeOnTransferToken.target));
+
+            await noReturnToken.transfer(user.address, ethers.parseEther("1000"));
+            await feeOnTransferToken.transfer(user.address, ethers.parseEther("1000"));
+
+            return { ...fixture, noReturnToken, feeOnTransferToken, noReturnWrapper, feeOnTransferWrapper };
+        }
+
+        it("Should deposit and withdraw tokens that return no value", async function () {
+            const { factory, noReturnToken, noReturnWrapper, user, treasurer, feeReceiver } = await loadFixture(deployNonStandardFixture);
+
+            const depositAmount = ethers.parseEther("100");
+            await noReturnToken.connect(user).approve(noReturnWrapper.target, depositAmount);
+            await noReturnWrapper.connect(user)["deposit(uint256)"](depositAmount);
+
+            expect(await noReturnWrapper.accruedFees()).to.equal(depositAmount / 100n);
+            expect(await noReturnWrapper.totalSupply() + await noReturnWrapper.accruedFees()).to.equal(await noReturnWrapper.totalUnderlying());
+
+            await noReturnWrapper.connect(user)["withdraw(uint256)"](await noReturnWrapper.balanceOf(user.address));
+            await factory.connect(treasurer).sweepFees([noReturnWrapper.target]);
+
+            expect(await noReturnToken.balanceOf(feeReceiver.address)).to.equal(depositAmount / 100n);
+            expect(await noReturnWrapper.totalSupply()).to.equal(0);
+            expect(await noReturnWrapper.totalUnderlying()).to.equal(0);
+        });
+
+        it("Should revert when a token without return value fails", async function () {
+            const { noReturnWrapper, user } = await loadFixture(deployNonStandardFixture);
+
+            await expect(noReturnWrapper.connect(user)["deposit(uint256)"](ethers.parseEther("100")))
+                .to.be.revertedWith("insufficient allowance");
+        });
+
+        it("Should mint only the amount received from fee-on-transfer tokens", async function () {
+            const { feeOnTransferToken, feeOnTransferWrapper, user, feeReceiver } = await loadFixture(deployNonStandardFixture);
+
+            const depositAmount = ethers.parseEther("100");
+            const received = depositAmount - depositAmount * 200n / 10000n;
+            const feeAmount = received / 100n;
+
+            await feeOnTransferToken.connect(user).approve(feeOnTransferWrapper.target, depositAmount);
+            await expect(feeOnTransferWrapper.connect(user)["deposit(uint256)"](depositAmount))
+                .to.emit(feeOnTransferWrapper, "Deposit")
+                .withArgs(user.address, received, feeAmount, received - feeAmount, feeReceiver.address);
+
+            expect(await feeOnTransferWrapper.balanceOf(user.address)).to.equal(received - feeAmount);
+        });
+
+        it("Should keep supply plus accrued fees equal to totalUnderlying through deposits, withdrawals and sweeps", async function () {
+            const { factory, feeOnTransferToken, feeOnTransferWrapper, noReturnToken, noReturnWrapper, user, operator, treasurer } = await loadFixture(deployNonStandardFixture);
+
+            await factory.connect(operator).setWithdrawalFee(30n);
+            const expectSolvent = async (wrapper: WrapperERC20) =>
+                expect(await wrapper.totalSupply() + await wrapper.accruedFees()).to.equal(await wrapper.totalUnderlying());
+
+            const cases = [
+                { token: feeOnTransferToken, wrapper: feeOnTransferWrapper },
+                { token: noReturnToken, wrapper: noReturnWrapper },
+            ];
+
+            for (const { token, wrapper } of cases) {
+                await token.connect(user).approve(wrapper.target, ethers.MaxUint256);
+
+                for (const amount of [ethers.parseEther("10"), 12345n, ethers.parseEther("3.3")]) {
+                    await wrapper.connect(user)["deposit(uint256)"](amount);
+                    await expectSolvent(wrapper);
+                }
+
+                await factory.connect(treasurer).sweepFees([wrapper.target]);
+                await expectSolvent(wrapper);
+
+                for (const divisor of [3n, 2n, 1n]) {
+                    await wrapper.connect(user)["withdraw(uint256)"]((await wrapper.balanceOf(user.address)) / divisor);
+                    await expectSolvent(wrapper);
+                }
+
+                await factory.connect(treasurer).sweepAllFees();
+                await expectSolvent(wrapper);
+                expect(await wrapper.totalUnderlying()).to.equal(0);
+            }
+        });
+    });
+
     describe("Utility Functions", function () {
         it("Should return correct total underlying balance", async function () {
             const { wrapper, usdtTestToken, user, fee } = await loadFixture(deployWrapperERC20Fixture);
 
             const depositAmount = ethers.parseEther("100");
             await usdtTestToken.connect(user).approve(wrapper.target, depositAmount);
-            await wrapper.connect(user).deposit(depositAmount);
+            await wrapper.connect(user)["deposit(uint256)"](depositAmount);
 
-            const expectedBalance = depositAmount - (depositAmount / fee);
-            expect(await wrapper.totalUnderlying()).to.equal(expectedBalance);
+            expect(await wrapper.totalUnderlying()).to.equal(depositAmount);
+            expect(await wrapper.totalAssets()).to.equal(depositAmount - (depositAmount / fee));
         });
 
         it("Should get correct fee from factory", async function () {
             const { usdtTestToken, user, wrapper, fee } = await loadFixture(deployWrapperERC20Fixture);
             const depositAmount = ethers.parseEther("100");
             await usdtTestToken.connect(user).approve(wrapper.target, depositAmount);
-            await wrapper.connect(user).deposit(depositAmount);
+            await wrapper.connect(user)["deposit(uint256)"](depositAmount);
 
             const expectedFee = depositAmount / fee;
             const expectedNetAmount = depositAmount - expectedFee;
@@ -257,11 +1043,12 @@ describe("WrapperERC20", function () {
         });
 
         it("Should get correct fee receiver from factory", async function () {
-            const { wrapper, feeReceiver, user, usdtTestToken } = await loadFixture(deployWrapperERC20Fixture);
+            const { factory, wrapper, treasurer, feeReceiver, user, usdtTestToken } = await loadFixture(deployWrapperERC20Fixture);
 
             const depositAmount = ethers.parseEther("100");
             await usdtTestToken.connect(user).approve(wrapper.target, depositAmount);
-            await wrapper.connect(user).deposit(depositAmount);
+            await wrapper.connect(user)["deposit(uint256)"](depositAmount);
+            await factory.connect(treasurer).sweepFees([wrapper.target]);
 
             const expectedFee = depositAmount / 100n;
             expect(await usdtTestToken.balanceOf(feeReceiver.address)).to.equal(expectedFee);
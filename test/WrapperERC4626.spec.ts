@@ -0,0 +1,289 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { deployWrapperFactory } from "./helpers/fixtures";
+import { createRandom } from "./helpers/random";
+
+// Property runs are seeded so a failure can be replayed with PROPERTY_SEED=<seed>.
+const SEED = Number(process.env.PROPERTY_SEED ?? 4626);
+const RUNS = Number(process.env.PROPERTY_RUNS ?? 25);
+
+const MAX_FEE = 2000;
+
+describe("WrapperERC20 ERC-4626", function () {
+  async function deployVaultFixture() {
+    const [admin, operator, treasurer, alice, bob, feeReceiver, spender] = await ethers.getSigners();
+
+    const { factory } = await deployWrapperFactory({ admin, operator, treasurer, feeReceiver });
+    await factory.connect(admin).grantRole(await factory.GUARDIAN_ROLE(), admin.address);
+
+    const BaseToken = await ethers.getContractFactory("BaseToken");
+    const usdtTokenTest = await BaseToken.deploy("USDT", "USDT");
+    await usdtTokenTest.waitForDeployment();
+
+    await factory.deployWrappedToken(usdtTokenTest.target);
+    const vault = await ethers.getContractAt("WrapperERC20", await factory.wrapperOf(usdtTokenTest.target));
+
+    const funds = ethers.parseEther("1000000");
+    for (const account of [alice, bob]) {
+      await usdtTokenTest.transfer(account.address, funds);
+      await usdtTokenTest.connect(account).approve(vault.target, ethers.MaxUint256);
+    }
+
+    return { factory, vault, usdtTokenTest, admin, operator, treasurer, alice, bob, feeReceiver, spender, funds };
+  }
+
+  describe("Surface", function () {
+    it("Should expose the underlying as asset", async function () {
+      const { vault, usdtTokenTest } = await loadFixture(deployVaultFixture);
+
+      expect(await vault.asset()).to.equal(usdtTokenTest.target);
+    });
+
+    it("Should track totalAssets with the underlying balance", async function () {
+      const { vault, alice } = await loadFixture(deployVaultFixture);
+
+      await vault.connect(alice)["deposit(uint256,address)"](ethers.parseEther("100"), alice.address);
+
+      expect(await vault.totalAssets() + await vault.accruedFees()).to.equal(await vault.totalUnderlying());
+      expect(await vault.totalAssets()).to.equal(await vault.totalSupply());
+    });
+
+    it("Should keep emitting the Deposit and Withdrawal events", async function () {
+      const { vault, alice, bob, feeReceiver } = await loadFixture(deployVaultFixture);
+
+      const assets = ethers.parseEther("100");
+      const shares = assets - assets / 100n;
+
+      await expect(vault.connect(alice)["deposit(uint256,address)"](assets, bob.address))
+        .to.emit(vault, "Deposit")
+        .withArgs(bob.address, assets, assets / 100n, shares, feeReceiver.address);
+
+      await expect(vault.connect(bob).redeem(shares, alice.address, bob.address))
+        .to.emit(vault, "Withdrawal")
+        .withArgs(bob.address, shares, 0, shares, feeReceiver.address);
+    });
+
+    it("Should report no capacity while paused", async function () {
+      const { factory, vault, admin, alice } = await loadFixture(deployVaultFixture);
+
+      await vault.connect(alice)["deposit(uint256,address)"](ethers.parseEther("100"), alice.address);
+      const balance = await vault.balanceOf(alice.address);
+
+      expect(await vault.maxDeposit(alice.address)).to.equal(ethers.MaxUint256);
+      expect(await vault.maxMint(alice.address)).to.equal(ethers.MaxUint256);
+      expect(await vault.maxWithdraw(alice.address)).to.equal(balance);
+      expect(await vault.maxRedeem(alice.address)).to.equal(balance);
+
+      await factory.connect(admin).setWrapperPause(vault.target, true, true);
+
+      expect(await vault.maxDeposit(alice.address)).to.equal(0);
+      expect(await vault.maxMint(alice.address)).to.equal(0);
+      expect(await vault.maxWithdraw(alice.address)).to.equal(0);
+      expect(await vault.maxRedeem(alice.address)).to.equal(0);
+      await expect(vault.connect(alice).mint(1000n, alice.address)).to.be.revertedWithCustomError(vault, "DepositsPaused");
+      await expect(vault.connect(alice).redeem(1000n, alice.address, alice.address))
+        .to.be.revertedWithCustomError(vault, "WithdrawalsPaused");
+    });
+
+    it("Should spend the allowance of third-party callers", async function () {
+      const { vault, alice, spender } = await loadFixture(deployVaultFixture);
+
+      await vault.connect(alice)["deposit(uint256,address)"](ethers.parseEther("100"), alice.address);
+
+      await expect(vault.connect(spender).redeem(1000n, spender.address, alice.address))
+        .to.be.revertedWithCustomError(vault, "ERC20InsufficientAllowance");
+      await expect(vault.connect(spender)["withdraw(uint256,address,address)"](1000n, spender.address, alice.address))
+        .to.be.revertedWithCustomError(vault, "ERC20InsufficientAllowance");
+
+      await vault.connect(alice).approve(spender.address, 3000n);
+      await vault.connect(spender).redeem(1000n, spender.address, alice.address);
+      await vault.connect(spender)["withdraw(uint256,address,address)"](1000n, spender.address, alice.address);
+
+      expect(await vault.allowance(alice.address, spender.address)).to.equal(1000n);
+    });
+
+    it("Should reject exact mints of fee-on-transfer underlyings", async function () {
+      const { factory, alice } = await loadFixture(deployVaultFixture);
+
+      const FeeOnTransferToken = await ethers.getContractFactory("FeeOnTransferToken");
+      const feeOnTransferToken = await FeeOnTransferToken.deploy("Taxed", "TAX", 100);
+      await feeOnTransferToken.transfer(alice.address, ethers.parseEther("1000"));
+
+      await factory.deployWrappedToken(feeOnTransferToken.target);
+      const vault = await ethers.getContractAt("WrapperERC20", await factory.wrapperOf(feeOnTransferToken.target));
+      await feeOnTransferToken.connect(alice).approve(vault.target, ethers.MaxUint256);
+
+      await expect(vault.connect(alice).mint(ethers.parseEther("10"), alice.address))
+        .to.be.revertedWithCustomError(vault, "IncompleteTransfer");
+    });
+  });
+
+  describe("Properties", function () {
+    const random = createRandom(SEED);
+
+    async function randomizeFees() {
+      const fixture = await loadFixture(deployVaultFixture);
+      const { factory, vault, operator } = fixture;
+
+      const depositFee = random.int(0, MAX_FEE - 1);
+      const withdrawalFee = random.int(0, MAX_FEE - 1);
+      await factory.connect(operator).setDepositFeeOverride(vault.target, depositFee);
+      await factory.connect(operator).setWithdrawalFeeOverride(vault.target, withdrawalFee);
+
+      return { ...fixture, label: `seed ${SEED}, fees ${depositFee}/${withdrawalFee}` };
+    }
+
+    it("convertToShares and convertToAssets are 1:1 inverses", async function () {
+      const { vault } = await loadFixture(deployVaultFixture);
+
+      for (let run = 0; run < RUNS; run++) {
+        const value = random.amount(ethers.MaxUint256);
+        expect(await vault.convertToShares(value)).to.equal(value);
+        expect(await vault.convertToAssets(await vault.convertToShares(value))).to.equal(value);
+      }
+    });
+
+    it("deposit mints exactly previewDeposit and never more than convertToShares", async function () {
+      for (let run = 0; run < RUNS; run++) {
+        const { vault, alice, bob, funds, label } = await randomizeFees();
+        const assets = random.amount(funds);
+
+        const preview = await vault.previewDeposit(assets);
+        const before = await vault.balanceOf(bob.address);
+        await vault.connect(alice)["deposit(uint256,address)"](assets, bob.address);
+
+        expect(await vault.balanceOf(bob.address) - before, label).to.equal(preview);
+        expect(preview, label).to.be.lte(await vault.convertToShares(assets));
+      }
+    });
+
+    it("mint pulls exactly previewMint and never less than convertToAssets", async function () {
+      for (let run = 0; run < RUNS; run++) {
+        const { vault, usdtTokenTest, alice, bob, funds, label } = await randomizeFees();
+        const shares = random.amount(funds / 2n);
+
+        const preview = await vault.previewMint(shares);
+        const assetsBefore = await usdtTokenTest.balanceOf(alice.address);
+        await vault.connect(alice).mint(shares, bob.address);
+
+        expect(await vault.balanceOf(bob.address), label).to.equal(shares);
+        expect(assetsBefore - (await usdtTokenTest.balanceOf(alice.address)), label).to.equal(preview);
+        expect(preview, label).to.be.gte(await vault.convertToAssets(shares));
+        // Minting is never cheaper than depositing the same assets.
+        expect(await vault.previewDeposit(preview), label).to.be.gte(shares);
+      }
+    });
+
+    it("withdraw burns exactly previewWithdraw and never less than convertToShares", async function () {
+      for (let run = 0; run < RUNS; run++) {
+        const { vault, usdtTokenTest, alice, bob, funds, label } = await randomizeFees();
+        await vault.connect(alice)["deposit(uint256,address)"](funds, alice.address);
+
+        const assets = random.amount(await vault.maxWithdraw(alice.address));
+        const preview = await vault.previewWithdraw(assets);
+        const sharesBefore = await vault.balanceOf(alice.address);
+        const assetsBefore = await usdtTokenTest.balanceOf(bob.address);
+        await vault.connect(alice)["withdraw(uint256,address,address)"](assets, bob.address, alice.address);
+
+        expect(sharesBefore - (await vault.balanceOf(alice.address)), label).to.equal(preview);
+        expect((await usdtTokenTest.balanceOf(bob.address)) - assetsBefore, label).to.equal(assets);
+        expect(preview, label).to.be.gte(await vault.convertToShares(assets));
+      }
+    });
+
+    it("redeem pays exactly previewRedeem and never more than convertToAssets", async function () {
+      for (let run = 0; run < RUNS; run++) {
+        const { vault, usdtTokenTest, alice, bob, funds, label } = await randomizeFees();
+        await vault.connect(alice)["deposit(uint256,address)"](funds, alice.address);
+
+        const shares = random.amount(await vault.maxRedeem(alice.address));
+        const preview = await vault.previewRedeem(shares);
+        const assetsBefore = await usdtTokenTest.balanceOf(bob.address);
+        await vault.connect(alice).redeem(shares, bob.address, alice.address);
+
+        expect((await usdtTokenTest.balanceOf(bob.address)) - assetsBefore, label).to.equal(preview);
+        expect(preview, label).to.be.lte(await vault.convertToAssets(shares));
+      }
+    });
+
+    it("withdraw of maxWithdraw and redeem of maxRedeem always go through", async function () {
+      for (let run = 0; run < RUNS; run++) {
+        const { vault, usdtTokenTest, alice, bob, funds, label } = await randomizeFees();
+        await vault.connect(alice)["deposit(uint256,address)"](random.amount(funds), alice.address);
+        await vault.connect(bob)["deposit(uint256,address)"](random.amount(funds), bob.address);
+
+        // Zero amounts revert with ZeroAmount, dust deposits can leave nothing to withdraw.
+        const maxWithdraw = await vault.maxWithdraw(alice.address);
+        if (maxWithdraw > 0n) {
+          const assetsBefore = await usdtTokenTest.balanceOf(alice.address);
+          await vault.connect(alice)["withdraw(uint256,address,address)"](maxWithdraw, alice.address, alice.address);
+          expect((await usdtTokenTest.balanceOf(alice.address)) - assetsBefore, label).to.equal(maxWithdraw);
+        }
+
+        const maxRedeem = await vault.maxRedeem(bob.address);
+        if (maxRedeem > 0n) {
+          await vault.connect(bob).redeem(maxRedeem, bob.address, bob.address);
+          expect(await vault.balanceOf(bob.address), label).to.equal(0);
+        }
+      }
+    });
+
+    it("round trips never return more assets than were put in", async function () {
+      for (let run = 0; run < RUNS; run++) {
+        const { vault, usdtTokenTest, alice, funds, label } = await randomizeFees();
+        const assets = random.amount(funds);
+
+        const before = await usdtTokenTest.balanceOf(alice.address);
+        await vault.connect(alice)["deposit(uint256,address)"](assets, alice.address);
+        const shares = await vault.balanceOf(alice.address);
+        await vault.connect(alice).redeem(shares, alice.address, alice.address);
+
+        expect(await usdtTokenTest.balanceOf(alice.address), label).to.be.lte(before);
+      }
+    });
+
+    it("random operation sequences keep every share backed", async function () {
+      const { factory, vault, usdtTokenTest, operator, treasurer, alice, bob } = await loadFixture(deployVaultFixture);
+      const actors = [alice, bob];
+
+      for (let step = 0; step < RUNS * 4; step++) {
+        const actor = random.pick(actors);
+        const receiver = random.pick(actors);
+        const operation = random.pick(["deposit", "mint", "withdraw", "redeem", "legacy", "fees", "sweep"] as const);
+        const label = `seed ${SEED}, step ${step}, ${operation}`;
+
+        const balance = await vault.balanceOf(actor.address);
+        const available = await usdtTokenTest.balanceOf(actor.address);
+
+        if (operation === "deposit" && available > 0n) {
+          await vault.connect(actor)["deposit(uint256,address)"](random.amount(available), receiver.address);
+        } else if (operation === "mint" && available > 1n) {
+          // Half the balance always covers the gross-up of the highest deposit fee.
+          await vault.connect(actor).mint(random.amount(available / 2n), receiver.address);
+        } else if (operation === "withdraw" && (await vault.maxWithdraw(actor.address)) > 0n) {
+          const assets = random.amount(await vault.maxWithdraw(actor.address));
+          await vault.connect(actor)["withdraw(uint256,address,address)"](assets, receiver.address, actor.address);
+        } else if (operation === "redeem" && balance > 0n) {
+          await vault.connect(actor).redeem(random.amount(balance), receiver.address, actor.address);
+        } else if (operation === "legacy" && balance > 0n) {
+          await vault.connect(actor)["withdraw(uint256)"](random.amount(balance));
+        } else if (operation === "fees") {
+          await factory.connect(operator).setDepositFeeOverride(vault.target, random.int(0, MAX_FEE - 1));
+          await factory.connect(operator).setWithdrawalFeeOverride(vault.target, random.int(0, MAX_FEE - 1));
+        } else if (operation === "sweep") {
+          await factory.connect(treasurer).sweepFees([vault.target]);
+        }
+
+        const totalSupply = await vault.totalSupply();
+        expect(await vault.totalAssets(), label).to.equal(totalSupply);
+        expect(totalSupply + (await vault.accruedFees()), label).to.equal(await vault.totalUnderlying());
+        expect((await vault.balanceOf(alice.address)) + (await vault.balanceOf(bob.address)), label).to.equal(totalSupply);
+        for (const account of actors) {
+          expect(await vault.maxRedeem(account.address), label).to.equal(await vault.balanceOf(account.address));
+          expect(await vault.previewWithdraw(await vault.maxWithdraw(account.address)), label).to.be.lte(await vault.balanceOf(account.address));
+        }
+      }
+    });
+  });
+});
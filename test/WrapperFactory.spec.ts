@@ -1,6 +1,7 @@
-import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
 import { expect } from "chai";
-import { ethers, upgrades } from "hardhat";
+import hre, { ethers, upgrades } from "hardhat";
+import { encodeWrapperInitData, predictWrapperAddress } from "../sdk";
 
 
 describe("WrapperFactory", function () {
@@ -77,10 +78,36 @@ describe("WrapperFactory", function () {
       await expect(factory.connect(user).deployWrappedToken(usdtTokenTest.target))
         .to.emit(factory, "WrappedTokenCreate")
 
-      const wrappedTokens = await factory.getWrappedTokens();
+      const wrappedTokens = await factory["getWrappedTokens()"]();
       expect(wrappedTokens.length).to.equal(1);
     });
 
+    it("Should read bytes32 token metadata", async function () {
+      const { factory, user } = await loadFixture(deployInitializedWrapperFactoryFixture);
+
+      const Bytes32MetadataToken = await ethers.getContractFactory("Bytes32MetadataToken");
+      const token = await Bytes32MetadataToken.deploy(ethers.encodeBytes32String("Maker"), ethers.encodeBytes32String("MKR"));
+
+      await factory.connect(user).deployWrappedToken(token.target);
+      const wrapper = await ethers.getContractAt("WrapperERC20", await factory.wrapperOf(token.target));
+
+      expect(await wrapper.name()).to.equal("Wrapped-Maker");
+      expect(await wrapper.symbol()).to.equal("W-MKR");
+    });
+
+    it("Should fall back when token metadata is missing", async function () {
+      const { factory, user } = await loadFixture(deployInitializedWrapperFactoryFixture);
+
+      const NoReturnToken = await ethers.getContractFactory("NoReturnToken");
+      const token = await NoReturnToken.deploy();
+
+      await factory.connect(user).deployWrappedToken(token.target);
+      const wrapper = await ethers.getContractAt("WrapperERC20", await factory.wrapperOf(token.target));
+
+      expect(await wrapper.name()).to.equal(`Wrapped-${(await token.getAddress()).toLowerCase()}`);
+      expect(await wrapper.symbol()).to.equal("W-UNKNOWN");
+    });
+
     it("Should not allow wrapping address(0)", async function () {
       const { factory, user } = await loadFixture(deployInitializedWrapperFactoryFixture);
 
@@ -97,6 +124,293 @@ describe("WrapperFactory", function () {
     });
   });
 
+  describe("Creation Permissions", function () {
+    // Mirrors `WrapperFactory.CreationMode`.
+    const CreationMode = { Open: 0, OperatorOnly: 1, Allowlist: 2 };
+
+    it("Should be open by default", async function () {
+      const { factory, user, usdtTokenTest } = await loadFixture(deployInitializedWrapperFactoryFixture);
+
+      expect(await factory.getCreationMode()).to.equal(CreationMode.Open);
+      await expect(factory.connect(user).deployWrappedToken(usdtTokenTest.target)).to.emit(factory, "WrappedTokenCreate");
+    });
+
+    it("Should only let operators create wrappers in OperatorOnly mode", async function () {
+      const { factory, admin, operator, user, usdtTokenTest } = await loadFixture(deployInitializedWrapperFactoryFixture);
+
+      await expect(factory.connect(admin).setCreationMode(CreationMode.OperatorOnly))
+        .to.emit(factory, "CreationModeChanged")
+        .withArgs(CreationMode.OperatorOnly);
+
+      await expect(factory.connect(user).deployWrappedToken(usdtTokenTest.target))
+        .to.be.revertedWithCustomError(factory, "CreationNotAllowed")
+        .withArgs(usdtTokenTest.target);
+      await expect(factory.connect(operator).deployWrappedToken(usdtTokenTest.target)).to.emit(factory, "WrappedTokenCreate");
+    });
+
+    it("Should only wrap allowlisted tokens in Allowlist mode", async function () {
+      const { factory, admin, operator, user, usdtTokenTest } = await loadFixture(deployInitializedWrapperFactoryFixture);
+
+      await factory.connect(admin).setCreationMode(CreationMode.Allowlist);
+
+      await expect(factory.connect(user).deployWrappedToken(usdtTokenTest.target))
+        .to.be.revertedWithCustomError(factory, "CreationNotAllowed");
+
+      await expect(factory.connect(operator).setTokenAllowed(usdtTokenTest.target, true))
+        .to.emit(factory, "TokenAllowedChanged")
+        .withArgs(usdtTokenTest.target, true);
+      expect(await factory.isTokenAllowed(usdtTokenTest.target)).to.be.true;
+
+      await expect(factory.connect(user).deployWrappedToken(usdtTokenTest.target)).to.emit(factory, "WrappedTokenCreate");
+    });
+
+    it("Should let operators wrap tokens outside the allowlist", async function () {
+      const { factory, admin, operator, usdtTokenTest } = await loadFixture(deployInitializedWrapperFactoryFixture);
+
+      await factory.connect(admin).setCreationMode(CreationMode.Allowlist);
+
+      await expect(factory.connect(operator).deployWrappedToken(usdtTokenTest.target)).to.emit(factory, "WrappedTokenCreate");
+    });
+
+    it("Should restrict who configures creation", async function () {
+      const { factory, operator, user, usdtTokenTest } = await loadFixture(deployInitializedWrapperFactoryFixture);
+
+      await expect(factory.connect(operator).setCreationMode(CreationMode.OperatorOnly))
+        .to.be.revertedWithCustomError(factory, "AccessControlUnauthorizedAccount");
+      await expect(factory.connect(user).setTokenAllowed(usdtTokenTest.target, true))
+        .to.be.revertedWithCustomError(factory, "AccessControlUnauthorizedAccount");
+      await expect(factory.connect(user).setTokenDenied(usdtTokenTest.target, true))
+        .to.be.revertedWithCustomError(factory, "AccessControlUnauthorizedAccount");
+      await expect(factory.connect(operator).setTokenDenied(ethers.ZeroAddress, true))
+        .to.be.revertedWithCustomError(factory, "ZeroAddress");
+    });
+  });
+
+  describe("Denylist", function () {
+    async function deployDenylistFixture() {
+      const fixture = await deployInitializedWrapperFactoryFixture();
+      const { factory, user, usdtTokenTest } = fixture;
+
+      await factory.connect(user).deployWrappedToken(usdtTokenTest.target);
+      const wrapper = await ethers.getContractAt("WrapperERC20", await factory.wrapperOf(usdtTokenTest.target));
+
+      const depositAmount = ethers.parseEther("100");
+      await usdtTokenTest.transfer(user.address, depositAmount * 2n);
+      await usdtTokenTest.connect(user).approve(wrapper.target, ethers.MaxUint256);
+      await wrapper.connect(user)["deposit(uint256)"](depositAmount);
+
+      return { ...fixture, wrapper, depositAmount };
+    }
+
+    it("Should not wrap denied tokens, even for operators", async function () {
+      const { factory, operator, usdtTokenTest } = await loadFixture(deployInitializedWrapperFactoryFixture);
+
+      await expect(factory.connect(operator).setTokenDenied(usdtTokenTest.target, true))
+        .to.emit(factory, "TokenDeniedChanged")
+        .withArgs(usdtTokenTest.target, true);
+
+      await expect(factory.connect(operator).deployWrappedToken(usdtTokenTest.target))
+        .to.be.revertedWithCustomError(factory, "TokenDenied")
+        .withArgs(usdtTokenTest.target);
+    });
+
+    it("Should block deposits into the wrapper of a denied token but keep withdrawals open", async function () {
+      const { factory, operator, user, usdtTokenTest, wrapper, depositAmount } = await loadFixture(deployDenylistFixture);
+
+      await factory.connect(operator).setTokenDenied(usdtTokenTest.target, true);
+
+      expect(await factory.isTokenDenied(usdtTokenTest.target)).to.be.true;
+      expect(await factory.isDepositPaused(wrapper.target)).to.be.true;
+      expect(await factory.isWithdrawalPaused(wrapper.target)).to.be.false;
+      expect(await wrapper.maxDeposit(user.address)).to.equal(0);
+
+      await expect(wrapper.connect(user)["deposit(uint256)"](depositAmount))
+        .to.be.revertedWithCustomError(wrapper, "DepositsPaused");
+      await expect(wrapper.connect(user)["withdraw(uint256)"](await wrapper.balanceOf(user.address)))
+        .to.emit(wrapper, "Withdrawal");
+    });
+
+    it("Should reopen deposits when the token is removed from the denylist", async function () {
+      const { factory, operator, user, usdtTokenTest, wrapper, depositAmount } = await loadFixture(deployDenylistFixture);
+
+      await factory.connect(operator).setTokenDenied(usdtTokenTest.target, true);
+      await factory.connect(operator).setTokenDenied(usdtTokenTest.target, false);
+
+      await expect(wrapper.connect(user)["deposit(uint256)"](depositAmount)).to.emit(wrapper, "Deposit");
+    });
+  });
+
+  describe("Metadata Overrides", function () {
+    it("Should let operators create wrappers with a custom name and symbol", async function () {
+      const { factory, operator, usdtTokenTest } = await loadFixture(deployInitializedWrapperFactoryFixture);
+
+      await expect(factory.connect(operator).deployWrappedTokenWithMetadata(usdtTokenTest.target, "Bridged Tether", "bUSDT"))
+        .to.emit(factory, "WrappedTokenCreate");
+      const wrapper = await ethers.getContractAt("WrapperERC20", await factory.wrapperOf(usdtTokenTest.target));
+
+      expect(await wrapper.name()).to.equal("Bridged Tether");
+      expect(await wrapper.symbol()).to.equal("bUSDT");
+      expect((await wrapper.eip712Domain()).name).to.equal("Bridged Tether");
+    });
+
+    it("Should keep the default metadata for empty overrides", async function () {
+      const { factory, operator, usdtTokenTest } = await loadFixture(deployInitializedWrapperFactoryFixture);
+
+      await factory.connect(operator).deployWrappedTokenWithMetadata(usdtTokenTest.target, "", "bUSDT");
+      const wrapper = await ethers.getContractAt("WrapperERC20", await factory.wrapperOf(usdtTokenTest.target));
+
+      expect(await wrapper.name()).to.equal("Wrapped-USDT");
+      expect(await wrapper.symbol()).to.equal("bUSDT");
+    });
+
+    it("Should apply the creation checks to custom metadata", async function () {
+      const { factory, operator, user, usdtTokenTest } = await loadFixture(deployInitializedWrapperFactoryFixture);
+
+      await expect(factory.connect(user).deployWrappedTokenWithMetadata(usdtTokenTest.target, "Fake", "FAKE"))
+        .to.be.revertedWithCustomError(factory, "AccessControlUnauthorizedAccount");
+
+      await factory.connect(operator).setTokenDenied(usdtTokenTest.target, true);
+      await expect(factory.connect(operator).deployWrappedTokenWithMetadata(usdtTokenTest.target, "Fake", "FAKE"))
+        .to.be.revertedWithCustomError(factory, "TokenDenied");
+    });
+  });
+
+  describe("Deterministic Addresses", function () {
+    it("Should deploy wrappers at the predicted address", async function () {
+      const { factory, user, usdtTokenTest } = await loadFixture(deployInitializedWrapperFactoryFixture);
+
+      const predicted = await factory.predictWrapperAddress(usdtTokenTest.target);
+
+      await expect(factory.connect(user).deployWrappedToken(usdtTokenTest.target))
+        .to.emit(factory, "WrappedTokenCreate")
+        .withArgs(usdtTokenTest.target, predicted);
+      expect(await factory.wrapperOf(usdtTokenTest.target)).to.equal(predicted);
+    });
+
+    it("Should match the off-chain prediction", async function () {
+      const { factory, user, usdtTokenTest, wrapperImplementation } = await loadFixture(deployInitializedWrapperFactoryFixture);
+
+      const factoryAddress = await factory.getAddress();
+      const underlying = await usdtTokenTest.getAddress();
+      const predicted = predictWrapperAddress({
+        factory: factoryAddress,
+        underlying,
+        implementation: await wrapperImplementation.getAddress(),
+        initData: encodeWrapperInitData(underlying, factoryAddress, "Wrapped-USDT", "W-USDT"),
+      });
+
+      expect(await factory.predictWrapperAddress(underlying)).to.equal(predicted);
+
+      await factory.connect(user).deployWrappedToken(underlying);
+      expect(await factory.wrapperOf(underlying)).to.equal(predicted);
+    });
+
+    it("Should derive different addresses for different underlyings", async function () {
+      const { factory, usdtTokenTest } = await loadFixture(deployInitializedWrapperFactoryFixture);
+
+      const BaseToken = await ethers.getContractFactory("BaseToken");
+      const otherToken = await BaseToken.deploy("USDT", "USDT");
+
+      expect(await factory.predictWrapperAddress(usdtTokenTest.target))
+        .to.not.equal(await factory.predictWrapperAddress(otherToken.target));
+    });
+  });
+
+  describe("Registry Queries", function () {
+    async function deployRegistryFixture() {
+      const fixture = await deployInitializedWrapperFactoryFixture();
+      const { factory, user } = fixture;
+
+      const BaseToken = await ethers.getContractFactory("BaseToken");
+      const tokens = [];
+      for (const symbol of ["USDC", "DAI", "WBTC"]) {
+        const token = await BaseToken.deploy(symbol, symbol);
+        await token.waitForDeployment();
+        await factory.connect(user).deployWrappedToken(token.target);
+        tokens.push(token);
+      }
+      const wrappers = await factory["getWrappedTokens()"]();
+
+      return { ...fixture, tokens, wrappers };
+    }
+
+    it("Should map underlying tokens and wrappers both ways", async function () {
+      const { factory, tokens, wrappers } = await loadFixture(deployRegistryFixture);
+
+      for (let i = 0; i < tokens.length; i++) {
+        expect(await factory.wrapperOf(tokens[i].target)).to.equal(wrappers[i]);
+        expect(await factory.underlyingOf(wrappers[i])).to.equal(tokens[i].target);
+      }
+    });
+
+    it("Should return address(0) for unknown tokens", async function () {
+      const { factory, usdtTokenTest, otherAccount } = await loadFixture(deployRegistryFixture);
+
+      expect(await factory.wrapperOf(usdtTokenTest.target)).to.equal(ethers.ZeroAddress);
+      expect(await factory.underlyingOf(otherAccount.address)).to.equal(ethers.ZeroAddress);
+    });
+
+    it("Should return the wrapped tokens count", async function () {
+      const { factory } = await loadFixture(deployRegistryFixture);
+
+      expect(await factory.wrappedTokensCount()).to.equal(3);
+    });
+
+    it("Should paginate wrapped tokens", async function () {
+      const { factory, wrappers } = await loadFixture(deployRegistryFixture);
+
+      expect(await factory["getWrappedTokens(uint256,uint256)"](0, 2)).to.deep.equal(wrappers.slice(0, 2));
+      expect(await factory["getWrappedTokens(uint256,uint256)"](2, 2)).to.deep.equal(wrappers.slice(2));
+      expect(await factory["getWrappedTokens(uint256,uint256)"](1, ethers.MaxUint256)).to.deep.equal(wrappers.slice(1));
+      expect(await factory["getWrappedTokens(uint256,uint256)"](3, 2)).to.deep.equal([]);
+      expect(await factory["getWrappedTokens(uint256,uint256)"](0, 0)).to.deep.equal([]);
+    });
+
+    it("Should backfill lookups after upgrading from the previous layout", async function () {
+      const [admin, operator, treasurer, user, feeReceiver] = await ethers.getSigners();
+
+      const WrapperERC20 = await ethers.getContractFactory("WrapperERC20");
+      const wrapperImplementation = await WrapperERC20.deploy();
+      await wrapperImplementation.waitForDeployment();
+
+      const MockWrapperFactoryV1 = await ethers.getContractFactory("MockWrapperFactoryV1");
+      const factoryV1 = await upgrades.deployProxy(
+        MockWrapperFactoryV1,
+        [admin.address, operator.address, treasurer.address, feeReceiver.address, 100n],
+        { initializer: "initialize", kind: "uups" }
+      );
+      await factoryV1.setImplementation(wrapperImplementation.target);
+
+      const BaseToken = await ethers.getContractFactory("BaseToken");
+      const usdc = await BaseToken.deploy("USDC", "USDC");
+      const dai = await BaseToken.deploy("DAI", "DAI");
+      await factoryV1.connect(user).deployWrappedToken(usdc.target);
+      await factoryV1.connect(user).deployWrappedToken(dai.target);
+      const [usdcWrapper, daiWrapper] = await factoryV1.getWrappedTokens();
+
+      const WrapperFactory = await ethers.getContractFactory("WrapperFactory");
+      const factory = await upgrades.upgradeProxy(factoryV1.target, WrapperFactory, { kind: "uups" });
+
+      expect(await factory.wrappedTokensCount()).to.equal(2);
+      expect(await factory["getWrappedTokens(uint256,uint256)"](0, 10)).to.deep.equal([usdcWrapper, daiWrapper]);
+      expect(await factory.wrapperOf(usdc.target)).to.equal(ethers.ZeroAddress);
+
+      await expect(factory.connect(user).syncWrappedTokens(0, 10))
+        .to.be.revertedWithCustomError(factory, "AccessControlUnauthorizedAccount");
+
+      await factory.connect(admin).syncWrappedTokens(0, 1);
+      expect(await factory.wrapperOf(usdc.target)).to.equal(usdcWrapper);
+      expect(await factory.wrapperOf(dai.target)).to.equal(ethers.ZeroAddress);
+
+      await factory.connect(admin).syncWrappedTokens(1, 10);
+      expect(await factory.wrapperOf(dai.target)).to.equal(daiWrapper);
+      expect(await factory.underlyingOf(daiWrapper)).to.equal(dai.target);
+
+      await expect(factory.connect(user).deployWrappedToken(dai.target))
+        .to.be.revertedWithCustomError(factory, "TokenAlreadyWrapped");
+    });
+  });
+
   describe("Fee Configuration", function () {
     it("Should allow treasurer to change fee receiver", async function () {
       const { factory, treasurer, otherAccount } = await loadFixture(deployInitializedWrapperFactoryFixture);
@@ -142,6 +456,295 @@ describe("WrapperFactory", function () {
     });
   });
 
+  describe("Fee Overrides", function () {
+    async function deployFeeOverridesFixture() {
+      const fixture = await deployInitializedWrapperFactoryFixture();
+      const { factory, user, usdtTokenTest } = fixture;
+
+      await factory.connect(user).deployWrappedToken(usdtTokenTest.target);
+      const wrapper = await factory.wrapperOf(usdtTokenTest.target);
+
+      return { ...fixture, wrapper };
+    }
+
+    it("Should fall back to the global fees", async function () {
+      const { factory, wrapper } = await loadFixture(deployFeeOverridesFixture);
+
+      expect(await factory.getDepositFeeFor(wrapper)).to.equal(100);
+      expect(await factory.getWithdrawalFee()).to.equal(0);
+      expect(await factory.getWithdrawalFeeFor(wrapper)).to.equal(0);
+    });
+
+    it("Should allow operator to change withdrawal fee", async function () {
+      const { factory, operator, wrapper } = await loadFixture(deployFeeOverridesFixture);
+
+      await expect(factory.connect(operator).setWithdrawalFee(30))
+        .to.emit(factory, "WithdrawalFeeChanged")
+        .withArgs(30);
+
+      expect(await factory.getWithdrawalFee()).to.equal(30);
+      expect(await factory.getWithdrawalFeeFor(wrapper)).to.equal(30);
+    });
+
+    it("Should not allow withdrawal fee higher than MAX_FEE", async function () {
+      const { factory, operator } = await loadFixture(deployFeeOverridesFixture);
+
+      await expect(factory.connect(operator).setWithdrawalFee(await factory.MAX_FEE()))
+        .to.be.revertedWithCustomError(factory, "FeeTooHigh");
+    });
+
+    it("Should allow operator to set and clear a deposit fee override", async function () {
+      const { factory, operator, wrapper } = await loadFixture(deployFeeOverridesFixture);
+
+      await expect(factory.connect(operator).setDepositFeeOverride(wrapper, 0))
+        .to.emit(factory, "DepositFeeOverrideChanged")
+        .withArgs(wrapper, true, 0);
+      expect(await factory.getDepositFeeFor(wrapper)).to.equal(0);
+      expect(await factory.getDepositFee()).to.equal(100);
+
+      await expect(factory.connect(operator).clearDepositFeeOverride(wrapper))
+        .to.emit(factory, "DepositFeeOverrideChanged")
+        .withArgs(wrapper, false, 0);
+      expect(await factory.getDepositFeeFor(wrapper)).to.equal(100);
+    });
+
+    it("Should allow operator to set and clear a withdrawal fee override", async function () {
+      const { factory, operator, wrapper } = await loadFixture(deployFeeOverridesFixture);
+
+      await expect(factory.connect(operator).setWithdrawalFeeOverride(wrapper, 75))
+        .to.emit(factory, "WithdrawalFeeOverrideChanged")
+        .withArgs(wrapper, true, 75);
+      expect(await factory.getWithdrawalFeeFor(wrapper)).to.equal(75);
+
+      await factory.connect(operator).clearWithdrawalFeeOverride(wrapper);
+      expect(await factory.getWithdrawalFeeFor(wrapper)).to.equal(0);
+    });
+
+    it("Should not allow overrides higher than MAX_FEE", async function () {
+      const { factory, operator, wrapper } = await loadFixture(deployFeeOverridesFixture);
+
+      const maxFee = await factory.MAX_FEE();
+      await expect(factory.connect(operator).setDepositFeeOverride(wrapper, maxFee))
+        .to.be.revertedWithCustomError(factory, "FeeTooHigh");
+      await expect(factory.connect(operator).setWithdrawalFeeOverride(wrapper, maxFee))
+        .to.be.revertedWithCustomError(factory, "FeeTooHigh");
+    });
+
+    it("Should not allow overrides for unknown wrappers", async function () {
+      const { factory, operator, otherAccount } = await loadFixture(deployFeeOverridesFixture);
+
+      await expect(factory.connect(operator).setDepositFeeOverride(otherAccount.address, 10))
+        .to.be.revertedWithCustomError(factory, "NotWrappedToken")
+        .withArgs(otherAccount.address);
+    });
+
+    it("Should not allow non-operator to change withdrawal fees", async function () {
+      const { factory, user, wrapper } = await loadFixture(deployFeeOverridesFixture);
+
+      await expect(factory.connect(user).setWithdrawalFee(10))
+        .to.be.revertedWithCustomError(factory, "AccessControlUnauthorizedAccount");
+      await expect(factory.connect(user).setWithdrawalFeeOverride(wrapper, 10))
+        .to.be.revertedWithCustomError(factory, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Fee Sweep", function () {
+    async function deployFeeSweepFixture() {
+      const fixture = await deployInitializedWrapperFactoryFixture();
+      const { factory, admin, user, usdtTokenTest } = fixture;
+
+      const BaseToken = await ethers.getContractFactory("BaseToken");
+      const daiTokenTest = await BaseToken.deploy("DAI", "DAI");
+      await daiTokenTest.waitForDeployment();
+
+      const wrappers = [];
+      for (const token of [usdtTokenTest, daiTokenTest]) {
+        await factory.connect(user).deployWrappedToken(token.target);
+        const wrapper = await ethers.getContractAt("WrapperERC20", await factory.wrapperOf(token.target));
+
+        await token.connect(admin).transfer(user.address, ethers.parseEther("1000"));
+        await token.connect(user).approve(wrapper.target, ethers.MaxUint256);
+        wrappers.push(wrapper);
+      }
+
+      return { ...fixture, daiTokenTest, wrappers };
+    }
+
+    it("Should accrue fees in the wrapper instead of sending them on deposit", async function () {
+      const { factory, feeReceiver, user, usdtTokenTest, wrappers: [wrapper] } = await loadFixture(deployFeeSweepFixture);
+
+      await wrapper.connect(user)["deposit(uint256)"](ethers.parseEther("100"));
+
+      expect(await usdtTokenTest.balanceOf(feeReceiver.address)).to.equal(0);
+      expect(await wrapper.accruedFees()).to.equal(ethers.parseEther("1"));
+      expect(await factory.getAccruedFees(wrapper.target)).to.equal(ethers.parseEther("1"));
+    });
+
+    it("Should sweep the fees of a wrapper to the fee receiver", async function () {
+      const { factory, treasurer, feeReceiver, user, usdtTokenTest, wrappers: [wrapper] } = await loadFixture(deployFeeSweepFixture);
+
+      await wrapper.connect(user)["deposit(uint256)"](ethers.parseEther("100"));
+      const fees = await wrapper.accruedFees();
+
+      await expect(factory.connect(treasurer).sweepFees([wrapper.target]))
+        .to.emit(factory, "FeesSwept")
+        .withArgs(wrapper.target, feeReceiver.address, fees)
+        .and.to.emit(wrapper, "FeesCollected")
+        .withArgs(feeReceiver.address, fees);
+
+      expect(await usdtTokenTest.balanceOf(feeReceiver.address)).to.equal(fees);
+      expect(await wrapper.accruedFees()).to.equal(0);
+      expect(await wrapper.totalSupply()).to.equal(await wrapper.totalUnderlying());
+    });
+
+    it("Should sweep many wrappers and report the aggregate accrued fees", async function () {
+      const { factory, treasurer, feeReceiver, user, usdtTokenTest, daiTokenTest, wrappers } = await loadFixture(deployFeeSweepFixture);
+
+      await wrappers[0].connect(user)["deposit(uint256)"](ethers.parseEther("100"));
+      await wrappers[1].connect(user)["deposit(uint256)"](ethers.parseEther("300"));
+
+      expect(await factory.getTotalAccruedFees()).to.equal(ethers.parseEther("4"));
+      expect(await factory.connect(treasurer).sweepFees.staticCall(wrappers.map((wrapper) => wrapper.target)))
+        .to.equal(ethers.parseEther("4"));
+
+      await factory.connect(treasurer).sweepFees(wrappers.map((wrapper) => wrapper.target));
+
+      expect(await usdtTokenTest.balanceOf(feeReceiver.address)).to.equal(ethers.parseEther("1"));
+      expect(await daiTokenTest.balanceOf(feeReceiver.address)).to.equal(ethers.parseEther("3"));
+      expect(await factory.getTotalAccruedFees()).to.equal(0);
+    });
+
+    it("Should sweep every wrapper and skip the ones without fees", async function () {
+      const { factory, treasurer, feeReceiver, user, usdtTokenTest, wrappers } = await loadFixture(deployFeeSweepFixture);
+
+      await wrappers[0].connect(user)["deposit(uint256)"](ethers.parseEther("100"));
+
+      await expect(factory.connect(treasurer).sweepAllFees())
+        .to.emit(factory, "FeesSwept")
+        .withArgs(wrappers[0].target, feeReceiver.address, ethers.parseEther("1"))
+        .and.not.to.emit(wrappers[1], "FeesCollected");
+
+      expect(await usdtTokenTest.balanceOf(feeReceiver.address)).to.equal(ethers.parseEther("1"));
+      await expect(factory.connect(treasurer).sweepAllFees()).to.not.emit(factory, "FeesSwept");
+    });
+
+    it("Should not allow sweeping unknown wrappers", async function () {
+      const { factory, treasurer, otherAccount } = await loadFixture(deployFeeSweepFixture);
+
+      await expect(factory.connect(treasurer).sweepFees([otherAccount.address]))
+        .to.be.revertedWithCustomError(factory, "NotWrappedToken")
+        .withArgs(otherAccount.address);
+    });
+
+    it("Should only allow the treasurer to sweep fees", async function () {
+      const { factory, operator, wrappers } = await loadFixture(deployFeeSweepFixture);
+
+      await expect(factory.connect(operator).sweepFees([wrappers[0].target]))
+        .to.be.revertedWithCustomError(factory, "AccessControlUnauthorizedAccount");
+      await expect(factory.connect(operator).sweepAllFees())
+        .to.be.revertedWithCustomError(factory, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should only allow the factory to collect fees from a wrapper", async function () {
+      const { treasurer, wrappers: [wrapper] } = await loadFixture(deployFeeSweepFixture);
+
+      await expect(wrapper.connect(treasurer).collectFees(treasurer.address))
+        .to.be.revertedWithCustomError(wrapper, "OwnableUnauthorizedAccount")
+        .withArgs(treasurer.address);
+    });
+
+    it("Should sweep to the fee receiver set at sweep time", async function () {
+      const { factory, treasurer, otherAccount, user, usdtTokenTest, wrappers: [wrapper] } = await loadFixture(deployFeeSweepFixture);
+
+      await wrapper.connect(user)["deposit(uint256)"](ethers.parseEther("100"));
+      await factory.connect(treasurer).setFeeReceiver(otherAccount.address);
+      await factory.connect(treasurer).sweepFees([wrapper.target]);
+
+      expect(await usdtTokenTest.balanceOf(otherAccount.address)).to.equal(ethers.parseEther("1"));
+    });
+  });
+
+  describe("Pause Configuration", function () {
+    async function deployPauseConfigurationFixture() {
+      const fixture = await deployInitializedWrapperFactoryFixture();
+      const { factory, admin, user, usdtTokenTest, otherAccount } = fixture;
+
+      await factory.connect(admin).grantRole(await factory.GUARDIAN_ROLE(), otherAccount.address);
+      await factory.connect(user).deployWrappedToken(usdtTokenTest.target);
+      const wrapper = await factory.wrapperOf(usdtTokenTest.target);
+
+      return { ...fixture, guardian: otherAccount, wrapper };
+    }
+
+    it("Should make GUARDIAN_ROLE manageable by admin", async function () {
+      const { factory } = await loadFixture(deployInitializedWrapperFactoryFixture);
+
+      expect(await factory.getRoleAdmin(await factory.GUARDIAN_ROLE())).to.equal(await factory.ADMINISTRATOR_ROLE());
+    });
+
+    it("Should allow guardian to pause globally", async function () {
+      const { factory, guardian, wrapper } = await loadFixture(deployPauseConfigurationFixture);
+
+      await expect(factory.connect(guardian).setGlobalPause(true, false))
+        .to.emit(factory, "GlobalPauseChanged")
+        .withArgs(true, false);
+
+      expect(await factory.getGlobalPause()).to.deep.equal([true, false]);
+      expect(await factory.isDepositPaused(wrapper)).to.be.true;
+      expect(await factory.isWithdrawalPaused(wrapper)).to.be.false;
+    });
+
+    it("Should allow guardian to pause a wrapper", async function () {
+      const { factory, guardian, wrapper } = await loadFixture(deployPauseConfigurationFixture);
+
+      await expect(factory.connect(guardian).setWrapperPause(wrapper, true, true))
+        .to.emit(factory, "WrapperPauseChanged")
+        .withArgs(wrapper, true, true);
+
+      expect(await factory.getWrapperPause(wrapper)).to.deep.equal([true, true]);
+      expect(await factory.getGlobalPause()).to.deep.equal([false, false]);
+    });
+
+    it("Should not allow pausing unknown wrappers", async function () {
+      const { factory, guardian, user } = await loadFixture(deployPauseConfigurationFixture);
+
+      await expect(factory.connect(guardian).setWrapperPause(user.address, true, true))
+        .to.be.revertedWithCustomError(factory, "NotWrappedToken");
+    });
+
+    it("Should not allow non-guardian to pause", async function () {
+      const { factory, admin, wrapper } = await loadFixture(deployPauseConfigurationFixture);
+
+      await expect(factory.connect(admin).setGlobalPause(true, true))
+        .to.be.revertedWithCustomError(factory, "AccessControlUnauthorizedAccount");
+      await expect(factory.connect(admin).setWrapperPause(wrapper, true, true))
+        .to.be.revertedWithCustomError(factory, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should set up GUARDIAN_ROLE after upgrading from the previous layout", async function () {
+      const [admin, operator, treasurer, feeReceiver, guardian] = await ethers.getSigners();
+
+      const MockWrapperFactoryV1 = await ethers.getContractFactory("MockWrapperFactoryV1");
+      const factoryV1 = await upgrades.deployProxy(
+        MockWrapperFactoryV1,
+        [admin.address, operator.address, treasurer.address, feeReceiver.address, 100n],
+        { initializer: "initialize", kind: "uups" }
+      );
+
+      const WrapperFactory = await ethers.getContractFactory("WrapperFactory");
+      const factory = await upgrades.upgradeProxy(factoryV1.target, WrapperFactory, {
+        kind: "uups",
+        call: "initializeV2",
+      });
+
+      const GUARDIAN_ROLE = await factory.GUARDIAN_ROLE();
+      await factory.connect(admin).grantRole(GUARDIAN_ROLE, guardian.address);
+      expect(await factory.hasRole(GUARDIAN_ROLE, guardian.address)).to.be.true;
+
+      await expect(factory.initializeV2()).to.be.revertedWithCustomError(factory, "InvalidInitialization");
+    });
+  });
+
   describe("Role Management", function () {
     it("Should allow admin to grant roles", async function () {
       const { factory, admin, otherAccount } = await loadFixture(deployInitializedWrapperFactoryFixture);
@@ -174,6 +777,261 @@ describe("WrapperFactory", function () {
     });
   });
 
+  describe("Wrapper Upgrades", function () {
+    async function deployWrappers(fixture: Awaited<ReturnType<typeof deployInitializedWrapperFactoryFixture>>) {
+      const { factory, user, usdtTokenTest, admin } = fixture;
+
+      const BaseToken = await ethers.getContractFactory("BaseToken");
+      const daiTokenTest = await BaseToken.deploy("DAI", "DAI");
+      await daiTokenTest.waitForDeployment();
+
+      await factory.connect(user).deployWrappedToken(usdtTokenTest.target);
+      await factory.connect(user).deployWrappedToken(daiTokenTest.target);
+      const [usdtWrapper, daiWrapper] = await factory["getWrappedTokens()"]();
+
+      const MockWrapperERC20V2 = await ethers.getContractFactory("MockWrapperERC20V2");
+      const wrapperImplementationV2 = await MockWrapperERC20V2.deploy();
+      await wrapperImplementationV2.waitForDeployment();
+      await factory.connect(admin).setImplementation(wrapperImplementationV2.target);
+
+      return { ...fixture, daiTokenTest, usdtWrapper, daiWrapper, wrapperImplementationV2 };
+    }
+
+    async function deployWrappersFixture() {
+      return deployWrappers(await deployInitializedWrapperFactoryFixture());
+    }
+
+    // Wrappers created before the reinitializers existed, the only ones that can still run them.
+    async function deployLegacyWrappersFixture() {
+      const fixture = await deployInitializedWrapperFactoryFixture();
+      const legacyImplementation = await (await ethers.getContractFactory("MockWrapperERC20V1")).deploy();
+      await fixture.factory.connect(fixture.admin).setImplementation(legacyImplementation.target);
+
+      return deployWrappers(fixture);
+    }
+
+    it("Should allow admin to upgrade a single wrapper", async function () {
+      const { factory, admin, usdtWrapper, daiWrapper, wrapperImplementation, wrapperImplementationV2 } = await loadFixture(deployWrappersFixture);
+
+      await expect(factory.connect(admin).upgradeWrapper(usdtWrapper))
+        .to.emit(factory, "WrapperUpgraded")
+        .withArgs(usdtWrapper, wrapperImplementationV2.target);
+
+      expect(await upgrades.erc1967.getImplementationAddress(usdtWrapper)).to.equal(wrapperImplementationV2.target);
+      expect(await upgrades.erc1967.getImplementationAddress(daiWrapper)).to.equal(wrapperImplementation.target);
+
+      const wrapperV2 = await ethers.getContractAt("MockWrapperERC20V2", usdtWrapper);
+      await wrapperV2.setVersion("2.0.0");
+      expect(await wrapperV2.version()).to.equal("2.0.0");
+      expect(await wrapperV2.symbol()).to.equal("W-USDT");
+    });
+
+    it("Should allow admin to upgrade a list of wrappers", async function () {
+      const { factory, admin, usdtWrapper, daiWrapper, wrapperImplementationV2 } = await loadFixture(deployWrappersFixture);
+
+      await expect(factory.connect(admin).upgradeWrappers([usdtWrapper, daiWrapper]))
+        .to.emit(factory, "WrapperUpgraded")
+        .withArgs(usdtWrapper, wrapperImplementationV2.target)
+        .and.to.emit(factory, "WrapperUpgraded")
+        .withArgs(daiWrapper, wrapperImplementationV2.target);
+    });
+
+    it("Should allow admin to upgrade every wrapper", async function () {
+      const { factory, admin, usdtWrapper, daiWrapper, wrapperImplementationV2 } = await loadFixture(deployWrappersFixture);
+
+      await factory.connect(admin).upgradeAllWrappers();
+
+      expect(await upgrades.erc1967.getImplementationAddress(usdtWrapper)).to.equal(wrapperImplementationV2.target);
+      expect(await upgrades.erc1967.getImplementationAddress(daiWrapper)).to.equal(wrapperImplementationV2.target);
+    });
+
+    it("Should allow admin to upgrade wrappers and call them in the same transaction", async function () {
+      const { factory, admin, usdtWrapper, daiWrapper, wrapperImplementationV2 } = await loadFixture(deployLegacyWrappersFixture);
+
+      const data = wrapperImplementationV2.interface.encodeFunctionData("initializeV2");
+      await expect(factory.connect(admin).upgradeWrappersAndCall([usdtWrapper, daiWrapper], data))
+        .to.emit(factory, "WrapperUpgraded")
+        .withArgs(daiWrapper, wrapperImplementationV2.target);
+
+      for (const address of [usdtWrapper, daiWrapper]) {
+        const wrapperV2 = await ethers.getContractAt("MockWrapperERC20V2", address);
+        expect(await upgrades.erc1967.getImplementationAddress(address)).to.equal(wrapperImplementationV2.target);
+        await expect(wrapperV2.initializeV2()).to.be.revertedWithCustomError(wrapperV2, "InvalidInitialization");
+      }
+    });
+
+    it("Should not run the reinitializers on new wrappers", async function () {
+      const { factory, admin, usdtWrapper, wrapperImplementationV2 } = await loadFixture(deployWrappersFixture);
+
+      const wrapper = await ethers.getContractAt("WrapperERC20", usdtWrapper);
+      await expect(wrapper.initializeV2()).to.be.revertedWithCustomError(wrapper, "InvalidInitialization");
+      await expect(wrapper.initializeV3()).to.be.revertedWithCustomError(wrapper, "InvalidInitialization");
+
+      const data = wrapperImplementationV2.interface.encodeFunctionData("initializeV3");
+      await expect(factory.connect(admin).upgradeWrappersAndCall([usdtWrapper], data))
+        .to.be.revertedWithCustomError(wrapper, "InvalidInitialization");
+    });
+
+    it("Should only call the wrapper reinitializers when upgrading", async function () {
+      const { factory, admin, otherAccount, usdtWrapper, wrapperImplementationV2 } = await loadFixture(deployWrappersFixture);
+
+      const collectFees = wrapperImplementationV2.interface.encodeFunctionData("collectFees", [otherAccount.address]);
+      await expect(factory.connect(admin).upgradeWrappersAndCall([usdtWrapper], collectFees))
+        .to.be.revertedWithCustomError(factory, "UnsupportedWrapperCall")
+        .withArgs(collectFees.slice(0, 10));
+
+      const setVersion = wrapperImplementationV2.interface.encodeFunctionData("setVersion", ["2.0.0"]);
+      await expect(factory.connect(admin).upgradeWrappersAndCall([usdtWrapper], setVersion))
+        .to.be.revertedWithCustomError(factory, "UnsupportedWrapperCall");
+
+      // The selector alone is not enough, the reinitializers take no arguments.
+      const initializeV3 = wrapperImplementationV2.interface.getFunction("initializeV3").selector;
+      await expect(factory.connect(admin).upgradeWrappersAndCall([usdtWrapper], initializeV3 + "00".repeat(32)))
+        .to.be.revertedWithCustomError(factory, "UnsupportedWrapperCall")
+        .withArgs(initializeV3);
+    });
+
+    it("Should keep wrapper balances after upgrade", async function () {
+      const { factory, admin, user, usdtTokenTest, usdtWrapper } = await loadFixture(deployWrappersFixture);
+
+      const wrapper = await ethers.getContractAt("WrapperERC20", usdtWrapper);
+      const depositAmount = ethers.parseEther("100");
+      await usdtTokenTest.transfer(user.address, depositAmount);
+      await usdtTokenTest.connect(user).approve(usdtWrapper, depositAmount);
+      await wrapper.connect(user)["deposit(uint256)"](depositAmount);
+      const balance = await wrapper.balanceOf(user.address);
+
+      await factory.connect(admin).upgradeWrapper(usdtWrapper);
+
+      expect(await wrapper.balanceOf(user.address)).to.equal(balance);
+      expect(await wrapper.totalAssets()).to.equal(balance);
+    });
+
+    it("Should not allow non-admin to upgrade wrappers", async function () {
+      const { factory, user, usdtWrapper } = await loadFixture(deployWrappersFixture);
+
+      await expect(factory.connect(user).upgradeWrapper(usdtWrapper))
+        .to.be.revertedWithCustomError(factory, "AccessControlUnauthorizedAccount");
+      await expect(factory.connect(user).upgradeAllWrappers())
+        .to.be.revertedWithCustomError(factory, "AccessControlUnauthorizedAccount");
+      await expect(factory.connect(user).upgradeWrappersAndCall([usdtWrapper], "0x"))
+        .to.be.revertedWithCustomError(factory, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should not upgrade addresses that are not registered wrappers", async function () {
+      const { factory, admin, usdtTokenTest, otherAccount } = await loadFixture(deployWrappersFixture);
+
+      await expect(factory.connect(admin).upgradeWrapper(otherAccount.address))
+        .to.be.revertedWithCustomError(factory, "NotWrappedToken")
+        .withArgs(otherAccount.address);
+
+      const WrapperERC20 = await ethers.getContractFactory("WrapperERC20");
+      const foreignWrapper = await upgrades.deployProxy(
+        WrapperERC20,
+        [usdtTokenTest.target, otherAccount.address, "Foreign", "FRG"],
+        { initializer: "initialize", kind: "uups" }
+      );
+
+      await expect(factory.connect(admin).upgradeWrapper(foreignWrapper.target))
+        .to.be.revertedWithCustomError(factory, "NotWrappedToken");
+    });
+
+    it("Should roll out a new implementation with the upgrade task", async function () {
+      const { factory, usdtWrapper, daiWrapper } = await loadFixture(deployWrappersFixture);
+
+      const implementation = await hre.run("factory:upgrade-wrappers", {
+        factory: await factory.getAddress(),
+        contract: "MockWrapperERC20V2",
+        reference: "WrapperERC20",
+        batchSize: 1,
+      });
+
+      expect(await factory.wrapperImplementation()).to.equal(implementation);
+      expect(await upgrades.erc1967.getImplementationAddress(usdtWrapper)).to.equal(implementation);
+      expect(await upgrades.erc1967.getImplementationAddress(daiWrapper)).to.equal(implementation);
+    });
+
+    it("Should call the given reinitializer with the upgrade task", async function () {
+      const { factory, usdtWrapper, daiWrapper } = await loadFixture(deployLegacyWrappersFixture);
+
+      await hre.run("factory:upgrade-wrappers", {
+        factory: await factory.getAddress(),
+        contract: "MockWrapperERC20V2",
+        reference: "MockWrapperERC20V1",
+        call: "initializeV2",
+      });
+
+      for (const address of [usdtWrapper, daiWrapper]) {
+        const wrapper = await ethers.getContractAt("WrapperERC20", address);
+        await expect(wrapper.initializeV2()).to.be.revertedWithCustomError(wrapper, "InvalidInitialization");
+      }
+    });
+
+    it("Should reject incompatible storage layouts with the upgrade task", async function () {
+      const { factory, usdtWrapper, wrapperImplementation } = await loadFixture(deployWrappersFixture);
+
+      await expect(hre.run("factory:upgrade-wrappers", {
+        factory: await factory.getAddress(),
+        contract: "MockWrapperERC20V1",
+        reference: "WrapperERC20",
+      })).to.be.rejectedWith("New storage layout is incompatible");
+
+      expect(await upgrades.erc1967.getImplementationAddress(usdtWrapper)).to.equal(wrapperImplementation.target);
+    });
+
+    it("Should require the reference when the wrapper implementation is not in the manifest", async function () {
+      const { factory, admin, otherAccount, usdtWrapper } = await loadFixture(deployWrappersFixture);
+
+      // Deployed outside the upgrades plugin, from an account no other test deploys from, so the
+      // manifest shared by the test run does not know it.
+      const unknownImplementation = await (await ethers.getContractFactory("WrapperERC20", otherAccount)).deploy();
+      await factory.connect(admin).setImplementation(unknownImplementation.target);
+      await factory.connect(admin).upgradeWrapper(usdtWrapper);
+
+      await expect(hre.run("factory:upgrade-wrappers", { factory: await factory.getAddress() }))
+        .to.be.rejectedWith("pass the contract it was built from with --reference");
+    });
+
+    it("Should validate against the implementation the wrappers run, not the reference", async function () {
+      const { factory } = await loadFixture(deployWrappersFixture);
+
+      await hre.run("factory:upgrade-wrappers", {
+        factory: await factory.getAddress(),
+        contract: "MockWrapperERC20V2",
+        reference: "WrapperERC20",
+      });
+
+      // The wrappers run MockWrapperERC20V2 now, dropping its `version` slot is not compatible.
+      await expect(hre.run("factory:upgrade-wrappers", {
+        factory: await factory.getAddress(),
+        contract: "WrapperERC20",
+        reference: "WrapperERC20",
+      })).to.be.rejectedWith("New storage layout is incompatible");
+    });
+
+    it("Should only roll out an executed implementation with the upgrade task when the timelock is active", async function () {
+      const { factory, admin, usdtWrapper } = await loadFixture(deployWrappersFixture);
+      const delay = 24n * 60n * 60n;
+      await factory.connect(admin).scheduleMinDelay(delay);
+      await factory.connect(admin).executeChange(4); // Change.MinDelay
+
+      await expect(hre.run("factory:upgrade-wrappers", { factory: await factory.getAddress(), reference: "WrapperERC20" }))
+        .to.be.rejectedWith("timelock is active");
+
+      const implementation = await upgrades.deployImplementation(await ethers.getContractFactory("WrapperERC20"), { kind: "uups" });
+      await expect(hre.run("factory:upgrade-wrappers", { factory: await factory.getAddress(), reference: "WrapperERC20", implementation }))
+        .to.be.rejectedWith("timelock is active");
+
+      await factory.connect(admin).scheduleImplementation(implementation as string);
+      await time.increase(delay);
+      await factory.connect(admin).executeChange(2); // Change.Implementation
+
+      await hre.run("factory:upgrade-wrappers", { factory: await factory.getAddress(), reference: "WrapperERC20", implementation });
+
+      expect(await upgrades.erc1967.getImplementationAddress(usdtWrapper)).to.equal(implementation);
+    });
+  });
+
   describe("UUPS Upgrade FACTORY", function () {
     it("Should allow owner to upgrade contract", async function () {
       const { factory } = await loadFixture(deployInitializedWrapperFactoryFixture);
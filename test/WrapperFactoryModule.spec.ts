@@ -0,0 +1,104 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { ethers, ignition } from "hardhat";
+import WrapperFactoryModule, { buildWrappedTokensModule, parseTokenList } from "../ignition/modules/WrapperFactory";
+
+describe("WrapperFactoryModule", function () {
+  async function deployWrapperFactoryModuleFixture() {
+    const [admin, operator, treasurer, feeReceiver] = await ethers.getSigners();
+
+    const { factory, wrapperImplementation } = await ignition.deploy(WrapperFactoryModule, {
+      parameters: {
+        WrapperFactoryModule: {
+          operator: operator.address,
+          treasurer: treasurer.address,
+          feeReceiver: feeReceiver.address,
+          initialFee: 250n,
+        },
+      },
+    });
+
+    return { factory, wrapperImplementation, admin, operator, treasurer, feeReceiver };
+  }
+
+  async function deployWrappedTokensModuleFixture() {
+    const BaseToken = await ethers.getContractFactory("BaseToken");
+    const usdtTokenTest = await BaseToken.deploy("USDT", "USDT");
+    const daiTokenTest = await BaseToken.deploy("DAI", "DAI");
+
+    const tokens = [await usdtTokenTest.getAddress(), await daiTokenTest.getAddress()];
+    const { factory } = await ignition.deploy(buildWrappedTokensModule(tokens));
+
+    return { factory, usdtTokenTest, daiTokenTest };
+  }
+
+  async function deployFromTokenListFixture() {
+    const BaseToken = await ethers.getContractFactory("BaseToken");
+    const usdtTokenTest = await BaseToken.deploy("USDT", "USDT");
+    const daiTokenTest = await BaseToken.deploy("DAI", "DAI");
+
+    process.env.WRAPPED_TOKENS = `${await usdtTokenTest.getAddress()}, ${await daiTokenTest.getAddress()}`;
+    try {
+      const { default: WrappedTokensModule } = await import("../ignition/modules/WrappedTokens");
+      const { factory } = await ignition.deploy(WrappedTokensModule);
+
+      return { factory, usdtTokenTest, daiTokenTest };
+    } finally {
+      delete process.env.WRAPPED_TOKENS;
+    }
+  }
+
+  describe("Deployment", function () {
+    it("Should initialize the factory proxy from module parameters", async function () {
+      const { factory, admin, operator, treasurer, feeReceiver } = await loadFixture(deployWrapperFactoryModuleFixture);
+
+      expect(await factory.hasRole(await factory.ADMINISTRATOR_ROLE(), admin.address)).to.be.true;
+      expect(await factory.hasRole(await factory.OPERATOR_ROLE(), operator.address)).to.be.true;
+      expect(await factory.hasRole(await factory.TREASURER_ROLE(), treasurer.address)).to.be.true;
+      expect(await factory.getFeeReceiver()).to.equal(feeReceiver.address);
+      expect(await factory.getDepositFee()).to.equal(250n);
+    });
+
+    it("Should set the wrapper implementation", async function () {
+      const { factory, wrapperImplementation } = await loadFixture(deployWrapperFactoryModuleFixture);
+
+      expect(await factory.wrapperImplementation()).to.equal(await wrapperImplementation.getAddress());
+    });
+
+    it("Should keep the first account as administrator when another account deploys", async function () {
+      const [admin, deployer] = await ethers.getSigners();
+
+      const { factory, wrapperImplementation } = await ignition.deploy(WrapperFactoryModule, { defaultSender: deployer.address });
+
+      expect(await factory.hasRole(await factory.ADMINISTRATOR_ROLE(), admin.address)).to.be.true;
+      expect(await factory.hasRole(await factory.ADMINISTRATOR_ROLE(), deployer.address)).to.be.false;
+      expect(await factory.wrapperImplementation()).to.equal(await wrapperImplementation.getAddress());
+    });
+
+    it("Should pre-wrap the given tokens", async function () {
+      const { factory, usdtTokenTest, daiTokenTest } = await loadFixture(deployWrappedTokensModuleFixture);
+
+      const wrappedTokens = await factory.getWrappedTokens();
+      expect(wrappedTokens.length).to.equal(2);
+
+      const usdtWrapper = await ethers.getContractAt("WrapperERC20", wrappedTokens[0]);
+      const daiWrapper = await ethers.getContractAt("WrapperERC20", wrappedTokens[1]);
+
+      expect(await usdtWrapper.underlyingToken()).to.equal(usdtTokenTest.target);
+      expect(await daiWrapper.underlyingToken()).to.equal(daiTokenTest.target);
+      expect(await daiWrapper.symbol()).to.equal("W-DAI");
+    });
+
+    it("Should pre-wrap the tokens given on the command line", async function () {
+      const { factory, usdtTokenTest, daiTokenTest } = await loadFixture(deployFromTokenListFixture);
+
+      expect(await factory.wrapperOf(usdtTokenTest.target)).to.not.equal(ethers.ZeroAddress);
+      expect(await factory.wrapperOf(daiTokenTest.target)).to.not.equal(ethers.ZeroAddress);
+    });
+
+    it("Should reject empty or invalid token lists", async function () {
+      expect(() => parseTokenList(" , ")).to.throw("No tokens to wrap");
+      expect(() => parseTokenList(`${ethers.ZeroAddress},0x1234`)).to.throw("Invalid token address 0x1234");
+    });
+  });
+});
@@ -0,0 +1,258 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { existsSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import hre, { ethers } from "hardhat";
+import { reconcileWrappers, reportToCsv, reportToJson } from "../sdk";
+import { deployWrapperFactory } from "./helpers/fixtures";
+
+describe("WrapperIndexer", function () {
+  async function deployScriptedHistoryFixture() {
+    const [admin, operator, treasurer, alice, bob, feeReceiver, newReceiver] = await ethers.getSigners();
+    const fromBlock = (await ethers.provider.getBlockNumber()) + 1;
+
+    const { factory } = await deployWrapperFactory({ admin, operator, treasurer, feeReceiver });
+
+    const BaseToken = await ethers.getContractFactory("BaseToken");
+    const usdtTokenTest = await BaseToken.deploy("USDT", "USDT");
+    const daiTokenTest = await BaseToken.deploy("DAI", "DAI");
+
+    await factory.connect(alice).deployWrappedToken(usdtTokenTest.target);
+    await factory.connect(bob).deployWrappedToken(daiTokenTest.target);
+    const usdtWrapper = await ethers.getContractAt("WrapperERC20", await factory.wrapperOf(usdtTokenTest.target));
+    const daiWrapper = await ethers.getContractAt("WrapperERC20", await factory.wrapperOf(daiTokenTest.target));
+
+    for (const [token, wrapper] of [[usdtTokenTest, usdtWrapper], [daiTokenTest, daiWrapper]] as const) {
+      for (const account of [alice, bob]) {
+        await token.transfer(account.address, ethers.parseEther("1000"));
+        await token.connect(account).approve(wrapper.target, ethers.MaxUint256);
+      }
+    }
+
+    // 1% deposit fee
+    await usdtWrapper.connect(alice)["deposit(uint256)"](ethers.parseEther("100"));
+    await daiWrapper.connect(bob)["deposit(uint256)"](ethers.parseEther("200"));
+
+    // 2% deposit fee, 0.5% withdrawal fee
+    await factory.connect(operator).setDepositFee(200n);
+    await factory.connect(operator).setWithdrawalFee(50n);
+    await usdtWrapper.connect(bob)["deposit(uint256,address)"](ethers.parseEther("50"), alice.address);
+    await usdtWrapper.connect(alice)["withdraw(uint256)"](ethers.parseEther("40"));
+    await daiWrapper.connect(bob).redeem(ethers.parseEther("20"), alice.address, bob.address);
+
+    await factory.connect(treasurer).sweepFees([usdtWrapper.target]);
+    await factory.connect(treasurer).setFeeReceiver(newReceiver.address);
+    await factory.connect(admin).grantRole(await factory.GUARDIAN_ROLE(), admin.address);
+    await daiWrapper.connect(bob).withdrawTo(alice.address, ethers.parseEther("10"));
+
+    return { factory, usdtTokenTest, daiTokenTest, usdtWrapper, daiWrapper, admin, alice, newReceiver, fromBlock };
+  }
+
+  describe("reconcileWrappers", function () {
+    it("Should rebuild the per-wrapper totals from the events", async function () {
+      const { factory, usdtTokenTest, usdtWrapper, fromBlock } = await loadFixture(deployScriptedHistoryFixture);
+
+      const report = await reconcileWrappers(ethers.provider, await factory.getAddress(), { fromBlock });
+      const usdt = report.wrappers.find((entry) => entry.wrapper === usdtWrapper.target)!;
+
+      expect(usdt).to.deep.include({
+        underlying: usdtTokenTest.target,
+        deposits: 2,
+        withdrawals: 1,
+        deposited: ethers.parseEther("150"),
+        depositFees: ethers.parseEther("2"),
+        withdrawn: ethers.parseEther("40"),
+        withdrawalFees: ethers.parseEther("0.2"),
+        paidOut: ethers.parseEther("39.8"),
+        feesCollected: ethers.parseEther("2.2"),
+        netSupply: ethers.parseEther("108"),
+        accruedFees: 0n,
+        expectedUnderlying: ethers.parseEther("108"),
+      });
+      expect(usdt.createdAtBlock).to.be.a("number");
+    });
+
+    it("Should reconcile every wrapper against its onchain balances", async function () {
+      const { factory, usdtWrapper, daiWrapper, fromBlock } = await loadFixture(deployScriptedHistoryFixture);
+
+      const report = await reconcileWrappers(ethers.provider, await factory.getAddress(), { fromBlock, blockBatch: 3 });
+
+      expect(report.wrappers).to.have.lengthOf(2);
+      for (const [entry, wrapper] of [[report.wrappers[0], usdtWrapper], [report.wrappers[1], daiWrapper]] as const) {
+        expect(entry.wrapper).to.equal(wrapper.target);
+        expect(entry.totalSupply).to.equal(await wrapper.totalSupply());
+        expect(entry.totalUnderlying).to.equal(await wrapper.totalUnderlying());
+        expect(entry.accruedFees).to.equal(await wrapper.accruedFees());
+        expect(entry.reconciled).to.be.true;
+      }
+    });
+
+    it("Should collect the factory configuration and role events", async function () {
+      const { factory, usdtWrapper, admin, newReceiver, fromBlock } = await loadFixture(deployScriptedHistoryFixture);
+
+      const { events } = await reconcileWrappers(ethers.provider, await factory.getAddress(), { fromBlock });
+
+      expect(events.filter((event) => event.name === "WrappedTokenCreate")).to.have.lengthOf(2);
+      expect(events.filter((event) => event.name === "DepositFeeChanged").map((event) => event.fee)).to.deep.equal([200n]);
+      expect(events.find((event) => event.name === "FeeReceiverChanged" && event.receiver === newReceiver.address)).to.exist;
+      expect(events.find((event) => event.name === "WrappedTokenCreate")).to.deep.include({ wrapper: usdtWrapper.target });
+
+      const grants = events.filter((event) => event.name === "RoleGranted");
+      expect(grants.find((event) => "role" in event && event.role === ethers.id("GUARDIAN") && event.account === admin.address)).to.exist;
+      // The legacy two-argument RoleGranted event is not indexed twice.
+      expect(grants.filter((event) => "role" in event && event.role === ethers.id("GUARDIAN"))).to.have.lengthOf(1);
+    });
+
+    it("Should flag wrappers whose balances do not match the events", async function () {
+      const { factory, usdtTokenTest, usdtWrapper, fromBlock } = await loadFixture(deployScriptedHistoryFixture);
+
+      await usdtTokenTest.transfer(usdtWrapper.target, 5n);
+      const report = await reconcileWrappers(ethers.provider, await factory.getAddress(), { fromBlock });
+      const usdt = report.wrappers.find((entry) => entry.wrapper === usdtWrapper.target)!;
+
+      expect(usdt.underlyingDelta).to.equal(5n);
+      expect(usdt.supplyDelta).to.equal(0n);
+      expect(usdt.reconciled).to.be.false;
+    });
+
+    it("Should only count the events of the given range", async function () {
+      const { factory, usdtWrapper, alice } = await loadFixture(deployScriptedHistoryFixture);
+
+      const fromBlock = (await ethers.provider.getBlockNumber()) + 1;
+      await usdtWrapper.connect(alice)["withdraw(uint256)"](ethers.parseEther("8"));
+
+      const report = await reconcileWrappers(ethers.provider, await factory.getAddress(), { fromBlock });
+      const usdt = report.wrappers.find((entry) => entry.wrapper === usdtWrapper.target)!;
+
+      expect(report.events).to.deep.equal([]);
+      expect(usdt).to.deep.include({ createdAtBlock: null, deposits: 0, withdrawals: 1, withdrawn: ethers.parseEther("8") });
+      expect(usdt.reconciled).to.be.false;
+    });
+
+    it("Should read the onchain balances at toBlock", async function () {
+      const { factory, usdtWrapper, alice, fromBlock } = await loadFixture(deployScriptedHistoryFixture);
+
+      const toBlock = await ethers.provider.getBlockNumber();
+      await usdtWrapper.connect(alice)["withdraw(uint256)"](ethers.parseEther("8"));
+
+      const report = await reconcileWrappers(ethers.provider, await factory.getAddress(), { fromBlock, toBlock });
+
+      expect(report.toBlock).to.equal(toBlock);
+      expect(report.wrappers.every((entry) => entry.reconciled)).to.be.true;
+    });
+  });
+
+  describe("legacy wrappers", function () {
+    async function deployLegacyHistoryFixture() {
+      const [admin, operator, treasurer, alice, feeReceiver] = await ethers.getSigners();
+      const fromBlock = (await ethers.provider.getBlockNumber()) + 1;
+
+      const { factory, wrapperImplementation } = await deployWrapperFactory({ admin, operator, treasurer, feeReceiver });
+      const legacyImplementation = await (await ethers.getContractFactory("MockWrapperERC20V1")).deploy();
+      await factory.connect(admin).setImplementation(legacyImplementation.target);
+
+      const BaseToken = await ethers.getContractFactory("BaseToken");
+      const usdtTokenTest = await BaseToken.deploy("USDT", "USDT");
+      await factory.connect(alice).deployWrappedToken(usdtTokenTest.target);
+      const wrapperAddress = await factory.wrapperOf(usdtTokenTest.target);
+      await usdtTokenTest.transfer(alice.address, ethers.parseEther("1000"));
+      await usdtTokenTest.connect(alice).approve(wrapperAddress, ethers.MaxUint256);
+      const createdBlock = (await ethers.provider.getBlockNumber()) + 1;
+
+      // Baseline implementation: the deposit fee goes to the receiver and withdrawals have no fee.
+      const legacyWrapper = await ethers.getContractAt("MockWrapperERC20V1", wrapperAddress);
+      await legacyWrapper.connect(alice).deposit(ethers.parseEther("100"));
+      await legacyWrapper.connect(alice).withdraw(ethers.parseEther("9"));
+
+      await factory.connect(admin).setImplementation(wrapperImplementation.target);
+      await factory.connect(admin).upgradeWrappersAndCall([wrapperAddress], wrapperImplementation.interface.encodeFunctionData("initializeV3"));
+      await factory.connect(operator).setWithdrawalFee(50n);
+
+      const wrapper = await ethers.getContractAt("WrapperERC20", wrapperAddress);
+      await wrapper.connect(alice)["deposit(uint256)"](ethers.parseEther("50"));
+      await wrapper.connect(alice)["withdraw(uint256)"](ethers.parseEther("40"));
+
+      return { factory, wrapper, fromBlock, createdBlock };
+    }
+
+    it("Should reconcile wrappers upgraded from the baseline implementation", async function () {
+      const { factory, wrapper, fromBlock } = await loadFixture(deployLegacyHistoryFixture);
+
+      const report = await reconcileWrappers(ethers.provider, await factory.getAddress(), { fromBlock });
+      const [entry] = report.wrappers;
+
+      expect(entry.wrapper).to.equal(wrapper.target);
+      expect(entry).to.deep.include({
+        deposits: 2,
+        withdrawals: 2,
+        deposited: ethers.parseEther("150"),
+        depositFees: ethers.parseEther("1.5"),
+        withdrawn: ethers.parseEther("49"),
+        withdrawalFees: ethers.parseEther("0.2"),
+        paidOut: ethers.parseEther("48.8"),
+        feesCollected: ethers.parseEther("1"),
+        accruedFees: ethers.parseEther("0.7"),
+      });
+      expect(entry.accruedFees).to.equal(await wrapper.accruedFees());
+      expect(entry.reconciled).to.be.true;
+    });
+
+    it("Should read the implementation of wrappers created before the range", async function () {
+      const { factory, wrapper, createdBlock } = await loadFixture(deployLegacyHistoryFixture);
+
+      const report = await reconcileWrappers(ethers.provider, await factory.getAddress(), { fromBlock: createdBlock });
+      const [entry] = report.wrappers;
+
+      expect(entry).to.deep.include({ createdAtBlock: null, deposits: 2, withdrawals: 2, feesCollected: ethers.parseEther("1") });
+      expect(entry.accruedFees).to.equal(await wrapper.accruedFees());
+      expect(entry.reconciled).to.be.true;
+    });
+  });
+
+  describe("report output", function () {
+    it("Should serialize the report to JSON with decimal strings", async function () {
+      const { factory, fromBlock } = await loadFixture(deployScriptedHistoryFixture);
+
+      const report = await reconcileWrappers(ethers.provider, await factory.getAddress(), { fromBlock });
+      const json = JSON.parse(reportToJson(report));
+
+      expect(json.wrappers[0].deposited).to.equal(ethers.parseEther("150").toString());
+      expect(json.events).to.have.lengthOf(report.events.length);
+    });
+
+    it("Should write one CSV row per wrapper", async function () {
+      const { factory, usdtWrapper, fromBlock } = await loadFixture(deployScriptedHistoryFixture);
+
+      const report = await reconcileWrappers(ethers.provider, await factory.getAddress(), { fromBlock });
+      const [header, ...rows] = reportToCsv(report).split("\n");
+
+      expect(header.split(",")).to.include.members(["wrapper", "deposited", "totalSupply", "reconciled"]);
+      expect(rows).to.have.lengthOf(2);
+      expect(rows[0].startsWith(`${usdtWrapper.target},`)).to.be.true;
+      expect(rows[0].endsWith(",true")).to.be.true;
+    });
+  });
+
+  describe("factory:reconcile", function () {
+    it("Should write the CSV report to a file", async function () {
+      const { factory, fromBlock } = await loadFixture(deployScriptedHistoryFixture);
+      const out = join(tmpdir(), `reconcile-${process.pid}.csv`);
+
+      try {
+        const report = await hre.run("factory:reconcile", { factory: await factory.getAddress(), fromBlock, format: "csv", out });
+
+        expect(existsSync(out)).to.be.true;
+        expect(readFileSync(out, "utf8")).to.equal(reportToCsv(report));
+      } finally {
+        rmSync(out, { force: true });
+      }
+    });
+
+    it("Should reject unknown formats", async function () {
+      const { factory } = await loadFixture(deployScriptedHistoryFixture);
+
+      await expect(hre.run("factory:reconcile", { factory: await factory.getAddress(), format: "xml" })).to.be.rejectedWith("Invalid format");
+    });
+  });
+});
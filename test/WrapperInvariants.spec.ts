@@ -0,0 +1,370 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { BaseToken, WrapperERC20 } from "../typechain-types";
+import { deployWrapperFactory } from "./helpers/fixtures";
+import { createRandom, type Random } from "./helpers/random";
+
+// Runs are seeded: a failure prints the seed of its run, replay it with INVARIANT_SEED=<seed> INVARIANT_RUNS=1.
+const SEED = Number(process.env.INVARIANT_SEED ?? 20);
+const RUNS = Number(process.env.INVARIANT_RUNS ?? 8);
+const STEPS = Number(process.env.INVARIANT_STEPS ?? 30);
+
+const MAX_FEE = 2000;
+const USERS = 4;
+const FUNDS = ethers.parseEther("1000000");
+const MAX_SHRINK_ATTEMPTS = 300;
+
+// Withdrawals and transfers move a share (in basis points) of the current balance, so an
+// operation stays valid when the shrinker drops the steps before it.
+type Operation =
+  | { kind: "deposit"; user: number; wrapper: number; amount: bigint }
+  | { kind: "depositWithPermit"; user: number; beneficiary: number; relayed: boolean; wrapper: number; amount: bigint }
+  | { kind: "withdraw"; user: number; wrapper: number; share: bigint }
+  | { kind: "transfer"; user: number; to: number; wrapper: number; share: bigint }
+  | { kind: "setDepositFee"; fee: bigint }
+  | { kind: "sweep" }
+  | { kind: "upgrade"; wrapper: number };
+
+const KINDS = ["deposit", "depositWithPermit", "withdraw", "transfer", "setDepositFee", "sweep", "upgrade"] as const;
+
+interface Model {
+  depositFee: bigint;
+  withdrawalFee: bigint;
+  wrappers: { accrued: bigint; swept: bigint; balances: bigint[] }[];
+}
+
+interface Failure {
+  seed: number;
+  step: number;
+  error: Error;
+  operations: Operation[];
+  shrunk: Operation[];
+}
+
+type Invariant = (context: InvariantContext, model: Model) => Promise<void>;
+
+type InvariantContext = Awaited<ReturnType<typeof deployInvariantFixture>>;
+
+async function deployInvariantFixture() {
+  const [admin, operator, treasurer, feeReceiver, ...others] = await ethers.getSigners();
+  const users = others.slice(0, USERS);
+
+  const MockWrapperERC20V2 = await ethers.getContractFactory("MockWrapperERC20V2");
+  const wrapperImplementationV2 = await MockWrapperERC20V2.deploy();
+  await wrapperImplementationV2.waitForDeployment();
+
+  const { factory, wrapperImplementation } = await deployWrapperFactory({ admin, operator, treasurer, feeReceiver });
+  await factory.connect(operator).setWithdrawalFee(25n);
+
+  const BaseToken = await ethers.getContractFactory("BaseToken");
+  const tokens: BaseToken[] = [];
+  const wrappers: WrapperERC20[] = [];
+  for (const symbol of ["USDT", "DAI"]) {
+    const token = await BaseToken.deploy(symbol, symbol);
+    await token.waitForDeployment();
+    await factory.deployWrappedToken(token.target);
+
+    tokens.push(token);
+    wrappers.push(await ethers.getContractAt("WrapperERC20", await factory.wrapperOf(token.target)));
+
+    for (const user of users) await token.transfer(user.address, FUNDS);
+  }
+
+  return { factory, tokens, wrappers, admin, operator, treasurer, feeReceiver, users, wrapperImplementation, wrapperImplementationV2 };
+}
+
+function randomOperation(random: Random): Operation {
+  const user = random.int(0, USERS - 1);
+  const wrapper = random.int(0, 1);
+
+  switch (random.pick(KINDS)) {
+    case "deposit":
+      return { kind: "deposit", user, wrapper, amount: random.amount(FUNDS / 10n) };
+    case "depositWithPermit":
+      return { kind: "depositWithPermit", user, beneficiary: random.int(0, USERS - 1), relayed: random.int(0, 1) === 1, wrapper, amount: random.amount(FUNDS / 10n) };
+    case "withdraw":
+      return { kind: "withdraw", user, wrapper, share: BigInt(random.int(1, 10000)) };
+    case "transfer":
+      return { kind: "transfer", user, to: random.int(0, USERS - 1), wrapper, share: BigInt(random.int(1, 10000)) };
+    case "setDepositFee":
+      return { kind: "setDepositFee", fee: BigInt(random.int(0, MAX_FEE - 1)) };
+    case "sweep":
+      return { kind: "sweep" };
+    case "upgrade":
+      return { kind: "upgrade", wrapper };
+  }
+}
+
+function randomSequence(seed: number, steps: number): Operation[] {
+  const random = createRandom(seed);
+  return Array.from({ length: steps }, () => randomOperation(random));
+}
+
+async function signPermit(token: BaseToken, owner: HardhatEthersSigner, spender: string, value: bigint, deadline: bigint) {
+  const signature = await owner.signTypedData(
+    {
+      name: await token.name(),
+      version: "1",
+      chainId: (await ethers.provider.getNetwork()).chainId,
+      verifyingContract: await token.getAddress(),
+    },
+    {
+      Permit: [
+        { name: "owner", type: "address" },
+        { name: "spender", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+      ],
+    },
+    { owner: owner.address, spender, value, nonce: await token.nonces(owner.address), deadline }
+  );
+  return ethers.Signature.from(signature);
+}
+
+async function apply(context: InvariantContext, model: Model, operation: Operation) {
+  const { factory, tokens, wrappers, users } = context;
+
+  switch (operation.kind) {
+    case "deposit":
+    case "depositWithPermit": {
+      const token = tokens[operation.wrapper];
+      const wrapper = wrappers[operation.wrapper];
+      const owner = users[operation.user];
+
+      const balance = await token.balanceOf(owner.address);
+      const amount = operation.amount < balance ? operation.amount : balance;
+      if (amount === 0n) return;
+
+      let beneficiary = operation.user;
+      if (operation.kind === "deposit") {
+        await token.connect(owner).approve(wrapper.target, amount);
+        await wrapper.connect(owner)["deposit(uint256)"](amount);
+      } else {
+        // A relayer can only deposit for the owner.
+        const sender = operation.relayed ? users[(operation.user + 1) % USERS] : owner;
+        if (!operation.relayed) beneficiary = operation.beneficiary;
+
+        const deadline = BigInt(await time.latest()) + 3600n;
+        const { v, r, s } = await signPermit(token, owner, await wrapper.getAddress(), amount, deadline);
+        await wrapper.connect(sender).depositWithPermit(owner.address, users[beneficiary].address, amount, deadline, v, r, s);
+      }
+
+      const fee = (amount * model.depositFee) / 10000n;
+      model.wrappers[operation.wrapper].accrued += fee;
+      model.wrappers[operation.wrapper].balances[beneficiary] += amount - fee;
+      return;
+    }
+    case "withdraw": {
+      const state = model.wrappers[operation.wrapper];
+      const amount = (state.balances[operation.user] * operation.share) / 10000n;
+      if (amount === 0n) return;
+
+      await wrappers[operation.wrapper].connect(users[operation.user])["withdraw(uint256)"](amount);
+
+      state.accrued += (amount * model.withdrawalFee) / 10000n;
+      state.balances[operation.user] -= amount;
+      return;
+    }
+    case "transfer": {
+      const state = model.wrappers[operation.wrapper];
+      const amount = (state.balances[operation.user] * operation.share) / 10000n;
+      if (amount === 0n) return;
+
+      await wrappers[operation.wrapper].connect(users[operation.user]).transfer(users[operation.to].address, amount);
+
+      state.balances[operation.user] -= amount;
+      state.balances[operation.to] += amount;
+      return;
+    }
+    case "setDepositFee":
+      await factory.connect(context.operator).setDepositFee(operation.fee);
+      model.depositFee = operation.fee;
+      return;
+    case "sweep":
+      await factory.connect(context.treasurer).sweepAllFees();
+      for (const state of model.wrappers) {
+        state.swept += state.accrued;
+        state.accrued = 0n;
+      }
+      return;
+    case "upgrade": {
+      const wrapper = await wrappers[operation.wrapper].getAddress();
+      const current = await upgrades.erc1967.getImplementationAddress(wrapper);
+      const next = current === context.wrapperImplementation.target ? context.wrapperImplementationV2 : context.wrapperImplementation;
+
+      await factory.connect(context.admin).setImplementation(next.target);
+      await factory.connect(context.admin).upgradeWrapper(wrapper);
+      return;
+    }
+  }
+}
+
+async function checkSolvency(context: InvariantContext, model: Model) {
+  for (const [index, wrapper] of context.wrappers.entries()) {
+    const state = model.wrappers[index];
+    const totalSupply = await wrapper.totalSupply();
+    const totalUnderlying = await wrapper.totalUnderlying();
+    const accruedFees = await wrapper.accruedFees();
+
+    expect(totalSupply, "totalSupply <= totalUnderlying").to.be.lte(totalUnderlying);
+    expect(totalSupply + accruedFees, "totalSupply + accruedFees").to.equal(totalUnderlying);
+    expect(accruedFees, "accruedFees").to.equal(state.accrued);
+    expect(await context.tokens[index].balanceOf(context.feeReceiver.address), "fee receiver balance").to.equal(state.swept);
+
+    for (const [user, signer] of context.users.entries()) {
+      expect(await wrapper.balanceOf(signer.address), `balance of user ${user}`).to.equal(state.balances[user]);
+    }
+  }
+}
+
+/** Runs `operations` from a fresh fixture, returning the failing step or null. */
+async function runSequence(operations: Operation[], invariant: Invariant): Promise<{ step: number; error: Error } | null> {
+  const context = await loadFixture(deployInvariantFixture);
+  const model: Model = {
+    depositFee: await context.factory.getDepositFee(),
+    withdrawalFee: await context.factory.getWithdrawalFee(),
+    wrappers: context.wrappers.map(() => ({ accrued: 0n, swept: 0n, balances: context.users.map(() => 0n) })),
+  };
+
+  for (const [step, operation] of operations.entries()) {
+    try {
+      await apply(context, model, operation);
+      await invariant(context, model);
+    } catch (error) {
+      return { step, error: error as Error };
+    }
+  }
+
+  return null;
+}
+
+/** Smaller variants of an operation, tried after dropping whole steps. */
+function simplifications(operation: Operation): Operation[] {
+  switch (operation.kind) {
+    case "deposit":
+    case "depositWithPermit":
+      return operation.amount > 1n ? [{ ...operation, amount: 1n }, { ...operation, amount: operation.amount / 2n }] : [];
+    case "withdraw":
+    case "transfer":
+      return operation.share < 10000n ? [{ ...operation, share: 10000n }] : [];
+    case "setDepositFee":
+      return operation.fee > 0n ? [{ ...operation, fee: 0n }, { ...operation, fee: operation.fee / 2n }] : [];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Delta-debugs a failing sequence: drops chunks of steps of decreasing size,
+ * then simplifies the remaining operations, keeping every change that still fails.
+ */
+async function shrink(operations: Operation[], invariant: Invariant): Promise<Operation[]> {
+  let attempts = 0;
+  const fails = async (candidate: Operation[]) => {
+    attempts++;
+    return (await runSequence(candidate, invariant)) !== null;
+  };
+
+  let current = operations;
+  for (let size = Math.ceil(current.length / 2); size >= 1 && attempts < MAX_SHRINK_ATTEMPTS; size = Math.floor(size / 2)) {
+    for (let start = 0; start < current.length && attempts < MAX_SHRINK_ATTEMPTS; ) {
+      const candidate = [...current.slice(0, start), ...current.slice(start + size)];
+      if (await fails(candidate)) current = candidate;
+      else start += size;
+    }
+  }
+
+  for (let index = 0; index < current.length && attempts < MAX_SHRINK_ATTEMPTS; index++) {
+    let simplified = true;
+    while (simplified && attempts < MAX_SHRINK_ATTEMPTS) {
+      simplified = false;
+      for (const operation of simplifications(current[index])) {
+        const candidate = current.map((existing, i) => (i === index ? operation : existing));
+        if (await fails(candidate)) {
+          current = candidate;
+          simplified = true;
+          break;
+        }
+      }
+    }
+  }
+
+  return current;
+}
+
+/** Runs `runs` seeded sequences and shrinks the first one that breaks `invariant`. */
+async function findFailure(invariant: Invariant, runs = RUNS, steps = STEPS): Promise<Failure | null> {
+  for (let run = 0; run < runs; run++) {
+    const seed = SEED + run;
+    const operations = randomSequence(seed, steps);
+
+    const result = await runSequence(operations, invariant);
+    if (!result) continue;
+
+    const failing = operations.slice(0, result.step + 1);
+    return { seed, ...result, operations, shrunk: await shrink(failing, invariant) };
+  }
+
+  return null;
+}
+
+function describeFailure({ seed, step, error, operations, shrunk }: Failure): string {
+  const format = (operation: Operation) => JSON.stringify(operation, (_, value) => (typeof value === "bigint" ? value.toString() : value));
+
+  return [
+    `Invariant broken at step ${step} of ${operations.length} (replay with INVARIANT_SEED=${seed} INVARIANT_RUNS=1): ${error.message}`,
+    `Shrunk to ${shrunk.length} operations:`,
+    ...shrunk.map((operation, index) => `  ${index}: ${format(operation)}`),
+  ].join("\n");
+}
+
+describe("WrapperERC20 invariants", function () {
+  this.timeout(10 * 60 * 1000);
+
+  it("random user sequences keep every wrapper solvent and the fee accounting exact", async function () {
+    const failure = await findFailure(checkSolvency);
+    if (failure) expect.fail(describeFailure(failure));
+  });
+
+  it("replays the same sequence for the same seed", async function () {
+    expect(randomSequence(SEED, STEPS)).to.deep.equal(randomSequence(SEED, STEPS));
+    expect(randomSequence(SEED, STEPS)).to.not.deep.equal(randomSequence(SEED + 1, STEPS));
+  });
+
+  describe("shrinking", function () {
+    it("Should shrink a failing sequence to the operation that breaks the invariant", async function () {
+      const { wrapperImplementation } = await loadFixture(deployInvariantFixture);
+      const neverUpgraded: Invariant = async (context) => {
+        for (const wrapper of context.wrappers) {
+          expect(await upgrades.erc1967.getImplementationAddress(await wrapper.getAddress())).to.equal(wrapperImplementation.target);
+        }
+      };
+
+      const failure = await findFailure(neverUpgraded);
+
+      expect(failure).to.not.be.null;
+      expect(failure!.shrunk).to.have.lengthOf(1);
+      expect(failure!.shrunk[0].kind).to.equal("upgrade");
+      expect(describeFailure(failure!)).to.include(`INVARIANT_SEED=${failure!.seed}`);
+    });
+
+    it("Should shrink the amounts of the remaining operations", async function () {
+      const noFees: Invariant = async (context) => {
+        for (const wrapper of context.wrappers) expect(await wrapper.accruedFees()).to.equal(0n);
+      };
+
+      const failure = await findFailure(noFees);
+
+      expect(failure).to.not.be.null;
+      expect(failure!.shrunk).to.have.lengthOf(1);
+
+      // The smallest deposit that still pays the 1% fee.
+      const [operation] = failure!.shrunk;
+      expect(operation.kind).to.be.oneOf(["deposit", "depositWithPermit"]);
+      expect("amount" in operation && operation.amount).to.be.within(100n, 199n);
+    });
+  });
+});
@@ -0,0 +1,30 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, upgrades } from "hardhat";
+
+export interface FactoryAccounts {
+  admin: HardhatEthersSigner;
+  operator: HardhatEthersSigner;
+  treasurer: HardhatEthersSigner;
+  feeReceiver: HardhatEthersSigner;
+}
+
+/**
+ * Deploys a WrapperERC20 implementation and a WrapperFactory proxy initialized
+ * with the given accounts, and sets the implementation used for new wrappers.
+ */
+export async function deployWrapperFactory({ admin, operator, treasurer, feeReceiver }: FactoryAccounts, initialFee = 100n) {
+  const WrapperERC20 = await ethers.getContractFactory("WrapperERC20");
+  const wrapperImplementation = await WrapperERC20.deploy();
+  await wrapperImplementation.waitForDeployment();
+
+  const WrapperFactory = await ethers.getContractFactory("WrapperFactory");
+  const factory = await upgrades.deployProxy(
+    WrapperFactory,
+    [admin.address, operator.address, treasurer.address, feeReceiver.address, initialFee],
+    { initializer: "initialize", kind: "uups" }
+  );
+  await factory.waitForDeployment();
+  await factory.connect(admin).setImplementation(wrapperImplementation.target);
+
+  return { factory, wrapperImplementation };
+}
@@ -0,0 +1,28 @@
+/** Small deterministic PRNG (mulberry32). */
+export function createRandom(seed: number) {
+  let state = seed >>> 0;
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const int = (min: number, max: number) => min + Math.floor(next() * (max - min + 1));
+
+  /** Amount in [1, max], spread over every order of magnitude so dust amounts are covered too. */
+  const amount = (max: bigint) => {
+    let raw = 0n;
+    for (let i = 0; i < 4; i++) raw = (raw << 32n) | BigInt(Math.floor(next() * 4294967296));
+
+    const scale = 10n ** BigInt(int(0, max.toString().length - 1));
+    const bound = scale < max ? scale : max;
+    return 1n + (raw % bound);
+  };
+
+  return { int, amount, pick: <T>(items: readonly T[]) => items[int(0, items.length - 1)] };
+}
+
+export type Random = ReturnType<typeof createRandom>;